@@ -3,11 +3,12 @@ import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { DagloApiClient } from "./client.js";
-import { saveCredentials } from "../auth/credentials.js";
-import { loginUser } from "../handlers/auth.js";
+import { loadCredentials, saveCredentials } from "../auth/credentials.js";
+import { loginUser, refreshSession } from "../handlers/auth.js";
 
 vi.mock("../handlers/auth.js", () => ({
   loginUser: vi.fn(),
+  refreshSession: vi.fn(),
 }));
 
 global.fetch = vi.fn() as any;
@@ -52,6 +53,7 @@ describe("DagloApiClient.request re-auth fallback", () => {
     vi.clearAllMocks();
     process.env.DAGLO_EMAIL = "u@x";
     process.env.DAGLO_PASSWORD = "pw";
+    delete process.env.DAGLO_REFRESH_TOKEN;
   });
 
   it("retries once after re-login on 401", async () => {
@@ -91,3 +93,296 @@ describe("DagloApiClient.request re-auth fallback", () => {
     );
   });
 });
+
+describe("DagloApiClient.request refresh-token renewal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.DAGLO_EMAIL;
+    delete process.env.DAGLO_PASSWORD;
+    delete process.env.DAGLO_REFRESH_TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.DAGLO_REFRESH_TOKEN;
+  });
+
+  it("uses the cached refresh token before re-login", async () => {
+    saveCredentials({ email: "u@x", accessToken: "OLD", refreshToken: "RT" });
+    const client = new DagloApiClient();
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    (refreshSession as any).mockImplementation(async () => {
+      client.setTokens("NEW", "RT2");
+      return {};
+    });
+
+    const response = await client.request("/v2/boards");
+    expect(response.ok).toBe(true);
+    expect(refreshSession).toHaveBeenCalledWith(client, "RT");
+    expect(loginUser).not.toHaveBeenCalled();
+
+    const retryInit = (global.fetch as any).mock.calls[1][1];
+    expect(retryInit.headers.Authorization).toBe("Bearer NEW");
+    expect(new DagloApiClient().getAuthHeaders()).toMatchObject({
+      Authorization: "Bearer NEW",
+    });
+  });
+
+  it("falls back to DAGLO_REFRESH_TOKEN when none is cached", async () => {
+    process.env.DAGLO_REFRESH_TOKEN = "ENV_RT";
+    const client = new DagloApiClient();
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+    (refreshSession as any).mockResolvedValue({});
+
+    await client.request("/v2/boards");
+    expect(refreshSession).toHaveBeenCalledWith(client, "ENV_RT");
+  });
+
+  it("saves a rotated refresh token when no email is known", async () => {
+    process.env.DAGLO_REFRESH_TOKEN = "ENV_RT";
+    const client = new DagloApiClient();
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+    (refreshSession as any).mockImplementation(async (target: DagloApiClient) => {
+      target.setTokens("NEW", "RT2");
+      return {};
+    });
+
+    await client.request("/v2/boards");
+    expect(loadCredentials()).toMatchObject({ accessToken: "NEW", refreshToken: "RT2" });
+
+    // The next run starts from the rotated token, not the spent one in the env.
+    const reloaded = new DagloApiClient();
+    await reloaded.request("/v2/boards");
+    expect(refreshSession).toHaveBeenLastCalledWith(reloaded, "RT2");
+  });
+
+  it("falls back to password re-login when the refresh path is missing", async () => {
+    process.env.DAGLO_EMAIL = "u@x";
+    process.env.DAGLO_PASSWORD = "pw";
+    saveCredentials({ email: "u@x", accessToken: "OLD", refreshToken: "RT" });
+    const client = new DagloApiClient();
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce(new Response("", { status: 404, statusText: "Not Found" }))
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+    const actual = await vi.importActual<typeof import("../handlers/auth.js")>(
+      "../handlers/auth.js"
+    );
+    (refreshSession as any).mockImplementation(actual.refreshSession);
+    (loginUser as any).mockResolvedValue({});
+
+    const response = await client.request("/v2/boards");
+    expect(response.ok).toBe(true);
+    expect((global.fetch as any).mock.calls[1][0]).toBe("https://backend.daglo.ai/user/refresh");
+    expect(loginUser).toHaveBeenCalledWith(client, { email: "u@x", password: "pw" });
+  });
+});
+
+describe("DagloApiClient proactive renewal", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.DAGLO_EMAIL;
+    delete process.env.DAGLO_PASSWORD;
+    delete process.env.DAGLO_REFRESH_TOKEN;
+  });
+
+  it("renews before the request when the token is about to expire", async () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "OLD",
+      refreshToken: "RT",
+      expiresAt: new Date(Date.now() + 10_000).toISOString(),
+    });
+    const client = new DagloApiClient();
+    expect(client.isTokenExpiring()).toBe(true);
+
+    (refreshSession as any).mockImplementation(async () => {
+      client.setTokens("NEW", "RT", undefined, new Date(Date.now() + 3600_000).toISOString());
+      return {};
+    });
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await client.request("/v2/boards");
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect((global.fetch as any).mock.calls.length).toBe(1);
+    expect((global.fetch as any).mock.calls[0][1].headers.Authorization).toBe("Bearer NEW");
+  });
+
+  it("does not renew a token that is far from expiry", async () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "AT",
+      refreshToken: "RT",
+      expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+    });
+    const client = new DagloApiClient();
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await client.request("/v2/boards");
+    expect(refreshSession).not.toHaveBeenCalled();
+  });
+
+  it("renews proactively again after a later reauthentication succeeds", async () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "OLD",
+      refreshToken: "RT",
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const client = new DagloApiClient();
+
+    (refreshSession as any)
+      .mockRejectedValueOnce(new Error("Token refresh failed"))
+      .mockImplementationOnce(async () => {
+        // Already expiring, so the next request must renew up front.
+        client.setTokens("NEW", "RT", undefined, new Date(Date.now() + 10_000).toISOString());
+        return {};
+      })
+      .mockImplementationOnce(async () => {
+        client.setTokens("NEWER", "RT", undefined, new Date(Date.now() + 3600_000).toISOString());
+        return {};
+      });
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" })
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await client.request("/v2/boards");
+    await client.request("/v2/boards");
+
+    expect(refreshSession).toHaveBeenCalledTimes(3);
+    expect((global.fetch as any).mock.calls[2][1].headers.Authorization).toBe("Bearer NEWER");
+  });
+
+  it("still sends the request when proactive renewal is impossible", async () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "OLD",
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const client = new DagloApiClient();
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await client.request("/v2/boards");
+    expect(response.ok).toBe(true);
+  });
+});
+
+describe("DagloApiClient.request retry policy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    saveCredentials({ email: "u@x", accessToken: "AT" });
+  });
+
+  const makeClient = () => {
+    const client = new DagloApiClient();
+    client.setRetryPolicy({ retries: 2, baseDelayMs: 0 });
+    return client;
+  };
+
+  it("retries GET requests on 503 until success", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await makeClient().request("/v2/boards");
+    expect(response.ok).toBe(true);
+    expect((global.fetch as any).mock.calls.length).toBe(2);
+  });
+
+  it("retries transient network errors", async () => {
+    (global.fetch as any)
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await makeClient().request("/v2/boards");
+    expect(response.ok).toBe(true);
+  });
+
+  it("honors Retry-After on 429", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "retry-after": "0" }),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    const response = await makeClient().request("/v2/boards");
+    expect(response.ok).toBe(true);
+  });
+
+  it("returns the last response once retries are exhausted", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 502,
+      headers: new Headers(),
+    });
+
+    const response = await makeClient().request("/v2/boards");
+    expect(response.status).toBe(502);
+    expect((global.fetch as any).mock.calls.length).toBe(3);
+  });
+
+  it("rejects a retry count that would never stop the loop", () => {
+    const client = new DagloApiClient();
+    expect(() => client.setRetryPolicy({ retries: Number.NaN })).toThrow(/Invalid retry count/);
+    expect(() => client.setRetryPolicy({ retries: -1 })).toThrow(/Invalid retry count/);
+  });
+
+  it("caps the retry count", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 502,
+      headers: new Headers(),
+    });
+
+    const client = new DagloApiClient();
+    client.setRetryPolicy({ retries: 1000, baseDelayMs: 0, maxDelayMs: 0 });
+    await client.request("/v2/boards");
+    expect((global.fetch as any).mock.calls.length).toBe(11);
+  });
+
+  it("does not retry non-idempotent requests by default", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 503,
+      headers: new Headers(),
+    });
+
+    await makeClient().request("/boards/b1", { method: "PATCH" });
+    expect((global.fetch as any).mock.calls.length).toBe(1);
+  });
+
+  it("retries non-idempotent requests when the call opts in", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await makeClient().request("/boards/b1", { method: "PATCH" }, { idempotent: true });
+    expect((global.fetch as any).mock.calls.length).toBe(2);
+  });
+
+  it("skips retries when disabled per call", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 503,
+      headers: new Headers(),
+    });
+
+    await makeClient().request("/v2/boards", {}, { retry: false });
+    expect((global.fetch as any).mock.calls.length).toBe(1);
+  });
+});
@@ -1,11 +1,41 @@
-import { DAGLO_API_BASE } from "../config.js";
+import {
+  DAGLO_API_BASE,
+  DAGLO_EMAIL_ENV,
+  DAGLO_PASSWORD_ENV,
+  DAGLO_REFRESH_TOKEN_ENV,
+} from "../config.js";
 import { loadCredentials, saveCredentials } from "../auth/credentials.js";
+import { logger } from "../logger.js";
+import { DagloAuthError } from "./errors.js";
+import {
+  assertRetryCount,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isIdempotentMethod,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  RetryPolicy,
+  sleep,
+} from "./retry.js";
+
+export interface RequestOptions {
+  /** Per-call retry overrides; `false` disables retries for this call. */
+  retry?: Partial<RetryPolicy> | false;
+  /** Treat the call as safe to repeat regardless of its HTTP method. */
+  idempotent?: boolean;
+}
+
+// Renew this long before the recorded expiry so in-flight requests don't race it.
+const EXPIRY_SKEW_MS = 60_000;
 
 export class DagloApiClient {
   private accessToken?: string;
   private refreshToken?: string;
   private email?: string;
   private expiresAt?: string;
+  private skipProactiveRenewal = false;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
 
   constructor() {
     const creds = loadCredentials();
@@ -21,15 +51,22 @@ export class DagloApiClient {
     this.accessToken = access;
     this.refreshToken = refresh;
     if (email) this.email = email;
-    if (expiresAt) this.expiresAt = expiresAt;
-
-    if (this.email) {
-      saveCredentials({
-        email: this.email,
-        accessToken: access,
-        refreshToken: refresh,
-        expiresAt: this.expiresAt,
-      });
+    // Expiry belongs to the access token, so a token without one clears it.
+    this.expiresAt = expiresAt;
+
+    // Refresh tokens rotate, so the new one must be saved even without an email.
+    saveCredentials({
+      email: this.email,
+      accessToken: access,
+      refreshToken: refresh,
+      expiresAt: this.expiresAt,
+    });
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+    if (policy.retries !== undefined) {
+      this.retryPolicy.retries = assertRetryCount(policy.retries);
     }
   }
 
@@ -53,41 +90,122 @@ export class DagloApiClient {
     return this.expiresAt;
   }
 
+  isTokenExpiring(now: number = Date.now()): boolean {
+    if (!this.accessToken || !this.expiresAt) return false;
+    const expiresAtMs = Date.parse(this.expiresAt);
+    if (Number.isNaN(expiresAtMs)) return false;
+    return expiresAtMs - now <= EXPIRY_SKEW_MS;
+  }
+
   get baseUrl(): string {
     return DAGLO_API_BASE;
   }
 
-  async request(path: string, init: RequestInit = {}): Promise<Response> {
+  async request(
+    path: string,
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<Response> {
     const url = path.startsWith("http") ? path : `${this.baseUrl}${path}`;
-    const merged: RequestInit = {
-      ...init,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(init.headers as Record<string, string> | undefined),
-      },
-    };
-
-    const response = await fetch(url, merged);
+
+    if (!this.skipProactiveRenewal && this.isTokenExpiring()) {
+      try {
+        await this.reauthenticate();
+      } catch (error) {
+        // Let the request go out; a 401 will retry the renewal and report it.
+        this.skipProactiveRenewal = true;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.debug({ error: message }, "Proactive token renewal failed");
+      }
+    }
+
+    const response = await this.fetchWithRetry(url, init, options);
     if (response.status !== 401) return response;
 
-    // Try re-login via env vars.
-    const email = process.env.DAGLO_EMAIL;
-    const password = process.env.DAGLO_PASSWORD;
-    if (!email || !password) {
-      throw new Error(
-        "Not authenticated. Run 'daglo auth login' or set DAGLO_EMAIL and DAGLO_PASSWORD."
+    await this.reauthenticate(url);
+
+    // Retry once with the new token.
+    return await this.fetchWithRetry(url, init, options);
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<Response> {
+    const policy = resolveRetryPolicy(this.retryPolicy, options.retry);
+    const canRetry =
+      options.idempotent ??
+      (policy.retryNonIdempotent || isIdempotentMethod(init.method));
+    const maxAttempts = canRetry ? policy.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt += 1) {
+      // Rebuild headers per attempt so a renewed token is picked up.
+      const merged: RequestInit = {
+        ...init,
+        headers: {
+          ...this.getAuthHeaders(),
+          ...(init.headers as Record<string, string> | undefined),
+        },
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(url, merged);
+      } catch (error) {
+        if (attempt >= maxAttempts) throw error;
+        const delay = computeBackoffDelay(attempt, policy);
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({ url, attempt, delay, error: message }, "Request failed, retrying");
+        await sleep(delay);
+        continue;
+      }
+
+      if (attempt >= maxAttempts || !isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers?.get("retry-after"));
+      const delay = Math.min(
+        retryAfter ?? computeBackoffDelay(attempt, policy),
+        policy.maxDelayMs
       );
+      logger.warn(
+        { url, attempt, delay, status: response.status },
+        "Retryable response, retrying"
+      );
+      await sleep(delay);
     }
+  }
 
+  private async reauthenticate(url?: string): Promise<void> {
     // Lazy import to avoid circular module load at startup.
-    const { loginUser } = await import("../handlers/auth.js");
-    await loginUser(this, { email, password });
+    const { loginUser, refreshSession } = await import("../handlers/auth.js");
 
-    // Retry once with the new token.
-    const retryHeaders: HeadersInit = {
-      ...this.getAuthHeaders(),
-      ...(init.headers as Record<string, string> | undefined),
-    };
-    return await fetch(url, { ...init, headers: retryHeaders });
+    const refreshToken =
+      this.refreshToken ?? process.env[DAGLO_REFRESH_TOKEN_ENV];
+    if (refreshToken) {
+      try {
+        await refreshSession(this, refreshToken);
+        this.skipProactiveRenewal = false;
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({ error: message }, "Token refresh failed, trying re-login");
+      }
+    }
+
+    // Fall back to re-login via env vars.
+    const email = process.env[DAGLO_EMAIL_ENV];
+    const password = process.env[DAGLO_PASSWORD_ENV];
+    if (!email || !password) {
+      throw new DagloAuthError(
+        `Not authenticated. Run 'daglo auth login', set ${DAGLO_REFRESH_TOKEN_ENV}, or set ${DAGLO_EMAIL_ENV} and ${DAGLO_PASSWORD_ENV}.`,
+        { status: 401, path: url ? new URL(url).pathname : undefined }
+      );
+    }
+
+    await loginUser(this, { email, password });
+    this.skipProactiveRenewal = false;
   }
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  createApiError,
+  DagloApiError,
+  DagloAuthError,
+  DagloNotFoundError,
+  DagloRateLimitError,
+  DagloServerError,
+  DagloValidationError,
+  getExitCode,
+  toApiError,
+} from "./errors.js";
+
+describe("createApiError", () => {
+  it("maps HTTP statuses to error classes", () => {
+    expect(createApiError("x", { status: 401 })).toBeInstanceOf(DagloAuthError);
+    expect(createApiError("x", { status: 403 })).toBeInstanceOf(DagloAuthError);
+    expect(createApiError("x", { status: 404 })).toBeInstanceOf(DagloNotFoundError);
+    expect(createApiError("x", { status: 429 })).toBeInstanceOf(DagloRateLimitError);
+    expect(createApiError("x", { status: 422 })).toBeInstanceOf(DagloValidationError);
+    expect(createApiError("x", { status: 503 })).toBeInstanceOf(DagloServerError);
+    expect(createApiError("x", { status: 418 }).constructor).toBe(DagloApiError);
+  });
+
+  it("gives each class a distinct exit code", () => {
+    const codes = [401, 404, 429, 422, 500, undefined].map((status) =>
+      getExitCode(createApiError("x", { status }))
+    );
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(getExitCode(new Error("plain"))).toBe(1);
+  });
+});
+
+describe("toApiError", () => {
+  it("carries status, request path and parsed body", async () => {
+    const response = {
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      url: "https://backend.daglo.ai/boards/b1?x=1",
+      text: async () => JSON.stringify({ message: "board not found" }),
+    } as unknown as Response;
+
+    const error = await toApiError(response, "Failed to fetch board");
+    expect(error).toBeInstanceOf(DagloNotFoundError);
+    expect(error.message).toBe("Failed to fetch board: Not Found");
+    expect(error.toJSON()).toMatchObject({
+      name: "DagloNotFoundError",
+      status: 404,
+      path: "/boards/b1?x=1",
+      body: { message: "board not found" },
+      exitCode: 4,
+    });
+  });
+
+  it("tolerates responses without a readable body", async () => {
+    const response = { ok: false, statusText: "Bad" } as unknown as Response;
+    const error = await toApiError(response, "Failed");
+    expect(error.message).toBe("Failed: Bad");
+    expect(error.body).toBeNull();
+  });
+});
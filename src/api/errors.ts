@@ -0,0 +1,100 @@
+import { parseResponseBody } from "../utils/http.js";
+
+export interface ApiErrorDetails {
+  status?: number;
+  path?: string;
+  body?: unknown;
+}
+
+export class DagloApiError extends Error {
+  readonly status?: number;
+  readonly path?: string;
+  readonly body?: unknown;
+  readonly exitCode: number = 1;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.path = details.path;
+    this.body = details.body;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status ?? null,
+      path: this.path ?? null,
+      body: this.body ?? null,
+      exitCode: this.exitCode,
+    };
+  }
+}
+
+export class DagloValidationError extends DagloApiError {
+  readonly exitCode = 2;
+}
+
+export class DagloAuthError extends DagloApiError {
+  readonly exitCode = 3;
+}
+
+export class DagloNotFoundError extends DagloApiError {
+  readonly exitCode = 4;
+}
+
+export class DagloRateLimitError extends DagloApiError {
+  readonly exitCode = 5;
+}
+
+export class DagloServerError extends DagloApiError {
+  readonly exitCode = 6;
+}
+
+export const createApiError = (
+  message: string,
+  details: ApiErrorDetails = {}
+): DagloApiError => {
+  const { status } = details;
+  if (status === 401 || status === 403) return new DagloAuthError(message, details);
+  if (status === 404) return new DagloNotFoundError(message, details);
+  if (status === 429) return new DagloRateLimitError(message, details);
+  if (status === 400 || status === 409 || status === 422) {
+    return new DagloValidationError(message, details);
+  }
+  if (status !== undefined && status >= 500) return new DagloServerError(message, details);
+  return new DagloApiError(message, details);
+};
+
+const getRequestPath = (url: string | undefined) => {
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+};
+
+/** Builds a typed error for a non-ok response; `message` gets the status text appended. */
+export const toApiError = async (
+  response: Response,
+  message: string
+): Promise<DagloApiError> => {
+  let body: unknown = null;
+  try {
+    body = await parseResponseBody(response);
+  } catch {
+    // Body already consumed or unreadable; the status is still useful.
+  }
+
+  return createApiError(`${message}: ${response.statusText}`, {
+    status: response.status,
+    path: getRequestPath(response.url),
+    body,
+  });
+};
+
+export const getExitCode = (error: unknown): number =>
+  error instanceof DagloApiError ? error.exitCode : 1;
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertRetryCount,
+  MAX_RETRIES,
+  parseRetryCount,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isIdempotentMethod,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "./retry.js";
+
+describe("parseRetryAfter", () => {
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const now = Date.parse("2026-04-18T00:00:00Z");
+    expect(parseRetryAfter("Sat, 18 Apr 2026 00:00:05 GMT", now)).toBe(5000);
+  });
+
+  it("returns null for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  it("grows exponentially and stays within the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(computeBackoffDelay(1, policy, () => 1)).toBe(100);
+    expect(computeBackoffDelay(3, policy, () => 1)).toBe(400);
+    expect(computeBackoffDelay(10, policy, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(200);
+  });
+});
+
+describe("retry classification", () => {
+  it("treats only idempotent methods as retryable by default", () => {
+    expect(isIdempotentMethod(undefined)).toBe(true);
+    expect(isIdempotentMethod("get")).toBe(true);
+    expect(isIdempotentMethod("POST")).toBe(false);
+    expect(isIdempotentMethod("PATCH")).toBe(false);
+  });
+
+  it("retries throttling and server errors only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(404)).toBe(false);
+    expect(isRetryableStatus(undefined)).toBe(false);
+  });
+
+  it("disables retries when the override is false", () => {
+    expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, false).retries).toBe(0);
+    expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, { retries: 5 }).retries).toBe(5);
+  });
+});
+
+describe("parseRetryCount", () => {
+  it("accepts whole numbers and caps them", () => {
+    expect(parseRetryCount("0")).toBe(0);
+    expect(parseRetryCount("4")).toBe(4);
+    expect(parseRetryCount("500")).toBe(MAX_RETRIES);
+  });
+
+  it("rejects values that are not a whole number of retries", () => {
+    for (const value of ["abc", "", "-1", "1.5"]) {
+      expect(() => parseRetryCount(value)).toThrow(/Invalid retry count/);
+    }
+    expect(() => assertRetryCount(Number.NaN)).toThrow(/Invalid retry count/);
+  });
+});
@@ -0,0 +1,83 @@
+export interface RetryPolicy {
+  /** Extra attempts after the first request (0 disables retries). */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Also retry POST/PATCH requests, which may not be safe to repeat. */
+  retryNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryNonIdempotent: false,
+};
+
+// Past this, retrying only delays a failure by many minutes of backoff.
+export const MAX_RETRIES = 10;
+
+/** A whole number of retries of 0 or more, capped at `MAX_RETRIES`. */
+export const assertRetryCount = (retries: number): number => {
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error(`Invalid retry count "${retries}" (use a whole number, 0 or more)`);
+  }
+  return Math.min(retries, MAX_RETRIES);
+};
+
+export const parseRetryCount = (value: string): number => {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid retry count "${value}" (use a whole number, 0 or more)`);
+  }
+  return assertRetryCount(Number(value));
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const resolveRetryPolicy = (
+  base: RetryPolicy,
+  override?: Partial<RetryPolicy> | false
+): RetryPolicy => {
+  if (override === false) return { ...base, retries: 0 };
+  return { ...base, ...override };
+};
+
+export const isIdempotentMethod = (method?: string) =>
+  IDEMPOTENT_METHODS.has((method ?? "GET").toUpperCase());
+
+export const isRetryableStatus = (status: number | undefined) =>
+  status !== undefined && RETRYABLE_STATUSES.has(status);
+
+/** Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds. */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number.parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+};
+
+/** Exponential backoff with full jitter: random in [0, base * 2^(attempt-1)]. */
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  );
+  return Math.round(random() * ceiling);
+};
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolveSleep) => setTimeout(resolveSleep, ms));
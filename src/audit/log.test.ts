@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getAuditLogPath, readAuditLog, recordAudit } from "./log.js";
+
+let tmpHome: string;
+
+beforeEach(() => {
+  tmpHome = mkdtempSync(join(tmpdir(), "daglo-audit-"));
+  process.env.XDG_CONFIG_HOME = tmpHome;
+});
+
+afterEach(() => {
+  delete process.env.XDG_CONFIG_HOME;
+  rmSync(tmpHome, { recursive: true, force: true });
+});
+
+describe("audit log", () => {
+  it("returns no entries when the log does not exist", () => {
+    expect(readAuditLog()).toEqual([]);
+  });
+
+  it("appends timestamped entries with 0600 permissions", () => {
+    recordAudit({ action: "delete", boardId: "b1", success: true });
+    recordAudit({ action: "purge", boardId: "b2", success: false, error: "boom" });
+
+    const entries = readAuditLog();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ action: "delete", boardId: "b1", success: true });
+    expect(entries[1]).toMatchObject({ action: "purge", error: "boom" });
+    expect(Date.parse(entries[0].timestamp)).not.toBeNaN();
+    expect(statSync(getAuditLogPath()).mode & 0o777).toBe(0o600);
+  });
+
+  it("skips malformed lines", () => {
+    recordAudit({ action: "delete", boardId: "b1", success: true });
+    appendFileSync(getAuditLogPath(), "{not json\n");
+    expect(readAuditLog()).toHaveLength(1);
+  });
+});
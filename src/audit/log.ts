@@ -0,0 +1,41 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { getConfigDir } from "../auth/credentials.js";
+
+export interface AuditEntry {
+  timestamp: string;
+  action: string;
+  boardId: string;
+  success: boolean;
+  error?: string;
+}
+
+const FILE_NAME = "audit.log";
+
+export const getAuditLogPath = (): string => join(getConfigDir(), FILE_NAME);
+
+// One JSON object per line so the log can be tailed and grepped.
+export const recordAudit = (entry: Omit<AuditEntry, "timestamp">): void => {
+  mkdirSync(getConfigDir(), { recursive: true, mode: 0o700 });
+  const line: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
+  appendFileSync(getAuditLogPath(), `${JSON.stringify(line)}\n`, {
+    mode: 0o600,
+    encoding: "utf-8",
+  });
+};
+
+export const readAuditLog = (): AuditEntry[] => {
+  const path = getAuditLogPath();
+  if (!existsSync(path)) return [];
+
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // Skip lines truncated by an interrupted write.
+    }
+  }
+  return entries;
+};
@@ -11,7 +11,8 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 
 export interface Credentials {
-  email: string;
+  /** Unknown for sessions started from DAGLO_REFRESH_TOKEN. */
+  email?: string;
   accessToken: string;
   refreshToken?: string;
   expiresAt?: string;
@@ -20,7 +21,7 @@ export interface Credentials {
 const CONFIG_DIR_NAME = "daglo";
 const FILE_NAME = "credentials.json";
 
-const getConfigDir = (): string => {
+export const getConfigDir = (): string => {
   const xdg = process.env.XDG_CONFIG_HOME;
   const base = xdg && xdg.length > 0 ? xdg : join(homedir(), ".config");
   return join(base, CONFIG_DIR_NAME);
@@ -2,14 +2,19 @@
 import chalk from "chalk";
 import { Command } from "commander";
 import { DagloApiClient } from "./api/client.js";
+import { parseRetryCount } from "./api/retry.js";
+import { registerAuditCommand } from "./cli/audit.js";
 import { registerAuthCommand } from "./cli/auth.js";
 import { registerBoardCommand } from "./cli/board.js";
+import { registerExportCommand } from "./cli/export.js";
 import { registerFolderCommand } from "./cli/folder.js";
 import { registerFileMetaCommand } from "./cli/file-meta.js";
 import { registerObsidianCommand } from "./cli/obsidian.js";
+import { asOptionParser } from "./cli/options.js";
 import { registerVideoCommand } from "./cli/video.js";
 import { logger } from "./logger.js";
-import { writeError } from "./cli/render/format.js";
+import { getExitCode } from "./api/errors.js";
+import { writeError, writeJsonError } from "./cli/render/format.js";
 
 const program = new Command();
 const client = new DagloApiClient();
@@ -21,11 +26,17 @@ program
   .option("-v, --verbose", "enable debug logging")
   .option("--quiet", "suppress info logs")
   .option("--no-color", "disable color output")
+  .option(
+    "--retries <n>",
+    "retries for failed idempotent API calls (0 disables, max 10)",
+    asOptionParser(parseRetryCount)
+  )
   .hook("preAction", (thisCommand) => {
     const opts = thisCommand.opts();
     if (opts.verbose) (logger as unknown as { level: string }).level = "debug";
     if (opts.quiet) (logger as unknown as { level: string }).level = "warn";
     if (opts.color === false) chalk.level = 0;
+    if (opts.retries !== undefined) client.setRetryPolicy({ retries: opts.retries });
   });
 
 registerAuthCommand(program, client);
@@ -33,9 +44,12 @@ registerBoardCommand(program, client);
 registerFolderCommand(program, client);
 registerFileMetaCommand(program, client);
 registerObsidianCommand(program, client);
+registerExportCommand(program, client);
 registerVideoCommand(program, client);
+registerAuditCommand(program);
 
 program.parseAsync(process.argv).catch((err: Error) => {
-  writeError(err.message);
-  process.exit(1);
+  if (process.argv.includes("--json")) writeJsonError(err);
+  else writeError(err.message);
+  process.exit(getExitCode(err));
 });
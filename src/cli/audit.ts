@@ -0,0 +1,33 @@
+import { Command } from "commander";
+import { getAuditLogPath, readAuditLog } from "../audit/log.js";
+import { writeJson } from "./render/format.js";
+import { writeTable } from "./render/table.js";
+
+export const registerAuditCommand = (program: Command) => {
+  const audit = program
+    .command("audit")
+    .description("Local log of destructive actions");
+
+  audit
+    .command("list")
+    .description("Show recorded delete/restore/purge actions")
+    .option("--limit <n>", "show only the most recent entries", (v) =>
+      parseInt(v, 10)
+    )
+    .option("--json", "output JSON")
+    .action((opts) => {
+      const entries = readAuditLog();
+      const shown = opts.limit ? entries.slice(-opts.limit) : entries;
+      if (opts.json) return writeJson(shown);
+      if (!shown.length) {
+        process.stderr.write(`No entries in ${getAuditLogPath()}\n`);
+        return;
+      }
+      writeTable(shown, [
+        { header: "TIME", get: (e) => e.timestamp },
+        { header: "ACTION", get: (e) => e.action },
+        { header: "BOARD", get: (e) => e.boardId },
+        { header: "RESULT", get: (e) => (e.success ? "ok" : e.error ?? "failed") },
+      ]);
+    });
+};
@@ -6,6 +6,7 @@ import {
   logoutUser,
 } from "../handlers/auth.js";
 import {
+  formatDuration,
   writeJson,
   writeKeyValue,
   writeSuccess,
@@ -65,9 +66,18 @@ export const registerAuthCommand = (program: Command, client: DagloApiClient) =>
         process.stderr.write("Not logged in\n");
         process.exit(1);
       }
-      writeKeyValue([
+      const rows: Array<[string, string]> = [
         ["Email", status.email ?? "(unknown)"],
         ["Expires", status.expiresAt ?? "(no expiry recorded)"],
-      ]);
+      ];
+      if (status.expiresInSeconds !== undefined) {
+        rows.push([
+          "Session",
+          status.expired
+            ? `expired ${formatDuration(status.expiresInSeconds)} ago`
+            : `active, ${formatDuration(status.expiresInSeconds)} remaining`,
+        ]);
+      }
+      writeKeyValue(rows);
     });
 };
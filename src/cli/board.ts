@@ -1,14 +1,48 @@
 import { Command } from "commander";
 import { DagloApiClient } from "../api/client.js";
 import {
+  collectBoards,
+  deleteBoard,
+  downloadBoardMedia,
   exportBoardContent,
   getBoardDetail,
   getBoardInfo,
   getBoardScript,
   getLatestBoardContent,
   listBoards,
+  listTrashedBoards,
+  moveBoard,
+  purgeBoard,
+  restoreBoard,
+  setBoardStarred,
   updateBoardName,
 } from "../handlers/boards.js";
+import { getFolders } from "../handlers/folders.js";
+import {
+  downloadBoardMediaSchema,
+  exportBoardContentSchema,
+  GetBoardsArgs,
+  getBoardsSchema,
+  NormalizedBoard,
+} from "../schemas/boards.js";
+import { parseBoardList } from "../utils/board.js";
+import { parseBetween, parseSince } from "../utils/date.js";
+import { parseFolderList } from "../utils/folder.js";
+import { runBulkBoardAction } from "./bulk.js";
+import { resolveBoardIds } from "./input.js";
+import {
+  asOptionParser,
+  numberOption,
+  parseArgs,
+  splitCsv,
+  wholeNumberOption,
+} from "./options.js";
+import {
+  BOARD_COLUMN_KEYS,
+  buildBoardColumns,
+  DEFAULT_BOARD_COLUMNS,
+  parseBoardColumns,
+} from "./render/board-columns.js";
 import {
   writeJson,
   writeKeyValue,
@@ -26,40 +60,93 @@ export const registerBoardCommand = (
   board
     .command("list")
     .description("List boards with optional filters")
-    .option("--page <n>", "page number", (v) => parseInt(v, 10))
-    .option("--limit <n>", "boards per page", (v) => parseInt(v, 10))
+    .option("--page <n>", "page number", wholeNumberOption("page", 1))
+    .option("--limit <n>", "boards per page", wholeNumberOption("limit", 1))
     .option("--sort <expr>", "sort expression (e.g. createTime.desc)")
     .option("--status <s>", "filter by status (COMPLETE|PROCESSING|FAILED)")
     .option("--starred", "only starred boards")
     .option("--folder <id>", "filter by folder ID")
+    .option("--folder-ids <ids>", "filter by folder IDs (comma-separated)", splitCsv)
+    .option("--search <text>", "filter by board name")
+    .option("--keyword <keyword>", "filter by keyword")
+    .option(
+      "--upload-types <types>",
+      "filter by upload types (comma-separated)",
+      splitCsv
+    )
+    .option(
+      "--checked <filter>",
+      "filter incomplete recordings or PDFs (incompleteRecording|isPdf)"
+    )
+    .option("--with-deleted", "include deleted boards")
+    .option("--start-date <date>", "created on or after this date (ISO)")
+    .option("--end-date <date>", "created on or before this date (ISO)")
+    .option(
+      "--since <expr>",
+      "created within a relative window (e.g. 36h, 7d, 2w, 3mo) or since a date",
+      asOptionParser((v) => parseSince(v))
+    )
+    .option(
+      "--between <range>",
+      "created within START..END (e.g. 2026-01-01..2026-02-01)",
+      asOptionParser(parseBetween)
+    )
+    .option(
+      "--columns <list>",
+      `table columns (comma-separated: ${BOARD_COLUMN_KEYS.join(", ")})`,
+      asOptionParser((v) => parseBoardColumns(splitCsv(v))),
+      DEFAULT_BOARD_COLUMNS
+    )
+    .option("--all", "follow pagination and list every matching board")
     .option("--json", "output JSON")
     .action(async (opts) => {
-      const data = await listBoards(client, {
+      const startOptions = Object.entries({
+        "--between": opts.between,
+        "--since": opts.since,
+        "--start-date": opts.startDate,
+      }).filter(([, value]) => value !== undefined);
+      if (startOptions.length > 1) {
+        const flags = startOptions.map(([flag]) => flag).join(", ");
+        throw new Error(`Pass only one of ${flags}; each sets the start date.`);
+      }
+      if (opts.between && opts.endDate !== undefined) {
+        throw new Error("--between already sets the end date; drop --end-date.");
+      }
+      const args: GetBoardsArgs = parseArgs(getBoardsSchema, {
         page: opts.page,
         limit: opts.limit,
         sort: opts.sort,
         status: opts.status,
         isStarred: opts.starred,
         folderId: opts.folder,
+        folderIds: opts.folderIds,
+        search: opts.search,
+        keyword: opts.keyword,
+        uploadTypes: opts.uploadTypes,
+        checkedFilter: opts.checked,
+        withDeleted: opts.withDeleted,
+        startDate: opts.between?.startDate ?? opts.since ?? opts.startDate,
+        endDate: opts.between?.endDate ?? opts.endDate,
       });
 
-      if (opts.json) return writeJson(data);
+      let boards: NormalizedBoard[];
+      if (opts.all) {
+        boards = await collectBoards(client, args);
+        if (opts.json) return writeJson(boards);
+      } else {
+        const data = await listBoards(client, args);
+        if (opts.json) return writeJson(data);
+        boards = parseBoardList(data).boards;
+      }
 
-      const items = Array.isArray(data)
-        ? data
-        : Array.isArray((data as { items?: unknown })?.items)
-          ? ((data as { items: unknown[] }).items)
-          : [];
-
-      writeTable(items as Array<Record<string, unknown>>, [
-        { header: "ID", get: (r) => String(r.id ?? "") },
-        { header: "NAME", get: (r) => String(r.name ?? "") },
-        { header: "STATUS", get: (r) => String(r.status ?? "") },
-        {
-          header: "CREATED",
-          get: (r) => String(r.createTime ?? r.createdAt ?? ""),
-        },
-      ]);
+      const columns: string[] = opts.columns;
+      const folderNames = new Map<string, string>();
+      if (columns.includes("folder")) {
+        for (const folder of parseFolderList(await getFolders(client, {}))) {
+          folderNames.set(folder.id, folder.name);
+        }
+      }
+      writeTable(boards, buildBoardColumns(columns, folderNames));
     });
 
   board
@@ -120,10 +207,8 @@ export const registerBoardCommand = (
     .option("--shared <id>", "shared board ID")
     .option("--history <id>", "script history ID (requires --file-meta)")
     .option("--original", "fetch original script (requires --file-meta)")
-    .option("--limit <n>", "minutes per page (default: 60)", (v) =>
-      parseInt(v, 10)
-    )
-    .option("--page <n>", "page index (default: 0)", (v) => parseInt(v, 10))
+    .option("--limit <n>", "minutes per page (default: 60)", wholeNumberOption("limit", 1))
+    .option("--page <n>", "page index (default: 0)", wholeNumberOption("page"))
     .option("--no-pages", "do not split into pages")
     .option("--json", "output JSON")
     .action(async (opts) => {
@@ -150,10 +235,102 @@ export const registerBoardCommand = (
       writeSuccess(`Renamed board ${boardId} to "${name}"`);
     });
 
+  board
+    .command("move [boardIds...]")
+    .description("Move boards to a folder (IDs from args or stdin)")
+    .requiredOption("--folder <id>", "destination folder ID")
+    .option("--dry-run", "show what would be moved without moving")
+    .option("--json", "output JSON")
+    .action(async (boardIds: string[], opts) => {
+      const ids = await resolveBoardIds(boardIds);
+      await runBulkBoardAction(ids, "move", { ...opts, confirm: false }, (boardId) =>
+        moveBoard(client, { boardId, folderId: opts.folder })
+      );
+    });
+
+  for (const [verb, isStarred] of [
+    ["star", true],
+    ["unstar", false],
+  ] as const) {
+    board
+      .command(`${verb} [boardIds...]`)
+      .description(`${verb === "star" ? "Star" : "Unstar"} boards (IDs from args or stdin)`)
+      .option("--dry-run", `show what would be ${verb}red without changing anything`)
+      .option("--json", "output JSON")
+      .action(async (boardIds: string[], opts) => {
+        const ids = await resolveBoardIds(boardIds);
+        await runBulkBoardAction(ids, verb, { ...opts, confirm: false }, (boardId) =>
+          setBoardStarred(client, { boardId, isStarred })
+        );
+      });
+  }
+
+  board
+    .command("delete <boardIds...>")
+    .description("Move boards to the trash")
+    .option("-y, --yes", "skip the confirmation prompt")
+    .option("--dry-run", "show what would be deleted without deleting")
+    .option("--json", "output JSON")
+    .action(async (boardIds: string[], opts) => {
+      await runBulkBoardAction(boardIds, "delete", opts, (boardId) =>
+        deleteBoard(client, { boardId })
+      );
+    });
+
+  board
+    .command("restore <boardIds...>")
+    .description("Restore boards from the trash")
+    .option("-y, --yes", "skip the confirmation prompt")
+    .option("--dry-run", "show what would be restored without restoring")
+    .option("--json", "output JSON")
+    .action(async (boardIds: string[], opts) => {
+      await runBulkBoardAction(boardIds, "restore", opts, (boardId) =>
+        restoreBoard(client, { boardId })
+      );
+    });
+
+  const trash = board.command("trash").description("Trash commands");
+
+  trash
+    .command("list")
+    .description("List deleted boards")
+    .option("--json", "output JSON")
+    .action(async (opts) => {
+      const boards = await listTrashedBoards(client);
+      if (opts.json) return writeJson(boards);
+      writeTable(boards, buildBoardColumns(["id", "name", "deleted"]));
+    });
+
+  trash
+    .command("purge [boardIds...]")
+    .description("Permanently delete boards in the trash (IDs, or --all for the whole trash)")
+    .option("--all", "purge every board in the trash")
+    .option("-y, --yes", "skip the confirmation prompt")
+    .option("--dry-run", "show what would be purged without purging")
+    .option("--json", "output JSON")
+    .action(async (boardIds: string[], opts) => {
+      if (boardIds.length && opts.all) {
+        throw new Error("Pass board IDs or --all, not both.");
+      }
+      if (!boardIds.length && !opts.all) {
+        throw new Error("Pass the board IDs to purge, or --all to empty the trash.");
+      }
+      const targets = boardIds.length
+        ? boardIds
+        : (await listTrashedBoards(client)).map((b) => b.id);
+      if (!targets.length) {
+        if (opts.json) return writeJson({ dryRun: !!opts.dryRun, results: [] });
+        return writeSuccess("Trash is empty");
+      }
+      await runBulkBoardAction(targets, "purge", opts, (boardId) =>
+        purgeBoard(client, { boardId })
+      );
+    });
+
   board
     .command("latest")
     .description("Get content of the most recently created board")
-    .option("--limit <n>", "number of boards to inspect", (v) => parseInt(v, 10))
+    .option("--limit <n>", "number of boards to inspect", wholeNumberOption("limit", 1))
     .option("--no-decode", "skip zlib+base64 decoding")
     .option("--json", "output JSON")
     .action(async (opts) => {
@@ -167,20 +344,55 @@ export const registerBoardCommand = (
 
   board
     .command("export <format>")
-    .description("Export board content (format: punctuation-json | text)")
+    .description("Export board content (format: punctuation-json | text | srt | vtt | ttml | lrc | words-json)")
     .option("--board-id <id>", "board ID (default: latest)")
     .option("--file-meta <id>", "file metadata ID")
     .option("--out <path>", "output file path")
-    .option("--limit <n>", "boards to inspect", (v) => parseInt(v, 10))
+    .option("--limit <n>", "boards to inspect", wholeNumberOption("limit", 1))
+    .option(
+      "--max-line-length <n>",
+      "subtitle or lyrics characters per line (default: 42)",
+      wholeNumberOption("line length", 1)
+    )
+    .option(
+      "--max-lines <n>",
+      "subtitle lines per cue (default: 2)",
+      wholeNumberOption("line count", 1)
+    )
+    .option(
+      "--min-duration <sec>",
+      "minimum seconds per subtitle cue (default: 1)",
+      numberOption("duration")
+    )
+    .option(
+      "--max-duration <sec>",
+      "maximum seconds per subtitle cue (default: 7)",
+      numberOption("duration")
+    )
+    .option(
+      "--offset <sec>",
+      "shift subtitle or lyrics timestamps by seconds (may be negative)",
+      numberOption("offset")
+    )
+    .option("--lang <tag>", "TTML language tag, e.g. ko or en-US (default: detected)")
     .option("--json", "output JSON")
     .action(async (format, opts) => {
-      const data = (await exportBoardContent(client, {
-        format,
-        boardId: opts.boardId,
-        fileMetaId: opts.fileMeta,
-        outputPath: opts.out,
-        limit: opts.limit,
-      })) as Record<string, unknown>;
+      const data = (await exportBoardContent(
+        client,
+        parseArgs(exportBoardContentSchema, {
+          format,
+          boardId: opts.boardId,
+          fileMetaId: opts.fileMeta,
+          outputPath: opts.out,
+          limit: opts.limit,
+          maxLineLength: opts.maxLineLength,
+          maxLines: opts.maxLines,
+          minDuration: opts.minDuration,
+          maxDuration: opts.maxDuration,
+          offset: opts.offset,
+          language: opts.lang,
+        })
+      )) as Record<string, unknown>;
 
       if (opts.json) return writeJson(data);
       const path =
@@ -188,4 +400,36 @@ export const registerBoardCommand = (
       if (path) writeFilesWritten([path]);
       else process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
     });
+
+  board
+    .command("download-media <boardId>")
+    .description("Download a board's original audio or video")
+    .option("--out <dir>", "output directory", ".")
+    .option("--filename <name>", "base filename without extension (default: board name)")
+    .option("--sha256 <digest>", "fail unless the file has this SHA-256")
+    .option("--force", "download again even if the file exists")
+    .option("--json", "output JSON")
+    .action(async (boardId, opts) => {
+      const data = await downloadBoardMedia(
+        client,
+        parseArgs(downloadBoardMediaSchema, {
+          boardId,
+          outputDir: opts.out,
+          filename: opts.filename,
+          sha256: opts.sha256,
+          force: opts.force,
+        })
+      );
+      if (opts.json) return writeJson(data);
+
+      if (data.skipped) writeSuccess(`Already downloaded: ${data.path}`);
+      else writeFilesWritten([data.path]);
+      writeKeyValue([
+        ["Size", `${data.bytes} bytes`],
+        ["SHA-256", data.sha256],
+        ...(data.resumedFrom
+          ? [["Resumed from", `${data.resumedFrom} bytes`] as [string, string]]
+          : []),
+      ]);
+    });
 };
@@ -0,0 +1,62 @@
+import { confirmAction } from "./prompt.js";
+import { writeError, writeJson, writeSuccess } from "./render/format.js";
+
+export interface BulkOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+  /** Ask before applying; off for non-destructive actions like starring. */
+  confirm?: boolean;
+}
+
+export interface BulkResult {
+  boardId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Applies `action` to each board ID after confirmation, continuing past
+ * individual failures. Sets a non-zero exit code if any board failed.
+ */
+export const runBulkBoardAction = async (
+  boardIds: string[],
+  verb: string,
+  opts: BulkOptions,
+  action: (boardId: string) => Promise<unknown>
+): Promise<void> => {
+  if (boardIds.length === 0) throw new Error("No board IDs given.");
+
+  if (opts.dryRun) {
+    if (opts.json) return writeJson({ dryRun: true, action: verb, boardIds });
+    for (const id of boardIds) process.stdout.write(`Would ${verb} ${id}\n`);
+    return;
+  }
+
+  if (opts.confirm !== false && !opts.yes) {
+    const confirmed = await confirmAction(
+      `${verb[0].toUpperCase()}${verb.slice(1)} ${boardIds.length} board(s)?`
+    );
+    if (!confirmed) {
+      writeError("Aborted");
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  const results: BulkResult[] = [];
+  for (const boardId of boardIds) {
+    try {
+      await action(boardId);
+      results.push({ boardId, success: true });
+      if (!opts.json) writeSuccess(`${verb}: ${boardId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ boardId, success: false, error: message });
+      if (!opts.json) writeError(`${verb}: ${boardId} — ${message}`);
+    }
+  }
+
+  if (opts.json) writeJson({ dryRun: false, action: verb, results });
+  if (results.some((result) => !result.success)) process.exitCode = 1;
+};
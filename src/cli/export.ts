@@ -0,0 +1,72 @@
+import { Command } from "commander";
+import { DagloApiClient } from "../api/client.js";
+import { getExporter, listExporters } from "../exporters/registry.js";
+import { exportBoards } from "../handlers/export.js";
+import { assertFilenamePattern, assertTimeZone } from "../utils/note-filename.js";
+import { resolveBoardIds } from "./input.js";
+import { asOptionParser } from "./options.js";
+import {
+  writeError,
+  writeFilesWritten,
+  writeJson,
+  writeKeyValue,
+} from "./render/format.js";
+
+export const registerExportCommand = (program: Command, client: DagloApiClient) => {
+  program
+    .command("export [boardIds...]")
+    .description(
+      "Export boards to another note app (IDs from args or stdin, --folder or --all)"
+    )
+    .option(
+      "--target <name>",
+      "export target (see --list-targets)",
+      asOptionParser((v) => getExporter(v).target),
+      "obsidian"
+    )
+    .option("--folder <id>", "export the boards of this folder")
+    .option("--all", "export every board of the account")
+    .option("--out <dir>", "output directory", "./export")
+    .option("--limit <n>", "max boards to export (default: all)", (v) => parseInt(v, 10))
+    .option(
+      "--template-dir <dir>",
+      "directory with original.md / summary.md templates (obsidian target)"
+    )
+    .option(
+      "--filename <pattern>",
+      "filename pattern ({date} {time} {name} {id} {folder})",
+      asOptionParser(assertFilenamePattern)
+    )
+    .option("--timezone <tz>", "IANA timezone for dates", asOptionParser(assertTimeZone))
+    .option("--list-targets", "list the available export targets")
+    .option("--json", "output JSON")
+    .action(async (boardIds: string[], opts) => {
+      if (opts.listTargets) {
+        const targets = listExporters().map(({ target, description }) => ({
+          target,
+          description,
+        }));
+        if (opts.json) return writeJson(targets);
+        return writeKeyValue(targets.map(({ target, description }) => [target, description]));
+      }
+
+      const result = await exportBoards(client, {
+        target: opts.target,
+        boardIds: opts.folder || opts.all ? boardIds : await resolveBoardIds(boardIds),
+        folderId: opts.folder,
+        all: opts.all,
+        outputDir: opts.out,
+        limit: opts.limit,
+        templateDir: opts.templateDir,
+        filenamePattern: opts.filename,
+        timezone: opts.timezone,
+      });
+      if (result.errorCount) process.exitCode = 1;
+      if (opts.json) return writeJson(result);
+
+      writeFilesWritten(result.generatedFiles);
+      for (const { boardId, error } of result.errors) {
+        writeError(`${boardId}: ${error}`);
+      }
+    });
+};
@@ -1,8 +1,24 @@
 import { Command } from "commander";
 import { DagloApiClient } from "../api/client.js";
-import { getFolders } from "../handlers/folders.js";
+import {
+  createFolder,
+  deleteFolder,
+  getFolders,
+  getFolderTree,
+  moveFolder,
+  renameFolder,
+} from "../handlers/folders.js";
 import { batchExportFolder } from "../handlers/obsidian.js";
-import { writeJson, writeFilesWritten } from "./render/format.js";
+import { assertFilenamePattern, assertTimeZone } from "../utils/note-filename.js";
+import { asOptionParser } from "./options.js";
+import { confirmAction } from "./prompt.js";
+import { writeFolderTree } from "./render/folder-tree.js";
+import {
+  writeError,
+  writeJson,
+  writeFilesWritten,
+  writeSuccess,
+} from "./render/format.js";
 import { writeTable } from "./render/table.js";
 
 export const registerFolderCommand = (
@@ -29,15 +45,99 @@ export const registerFolderCommand = (
     });
 
   folder
-    .command("export <folderId>")
-    .description("Export all boards in a folder to Obsidian markdown")
+    .command("tree")
+    .description("Show the folder hierarchy with board counts")
+    .option("--json", "output the tree as JSON")
+    .action(async (opts) => {
+      const tree = await getFolderTree(client);
+      if (opts.json) return writeJson(tree);
+      writeFolderTree(tree);
+    });
+
+  folder
+    .command("create <name>")
+    .description("Create a folder")
+    .option("--parent <id>", "parent folder ID (default: root)")
+    .option("--json", "output JSON")
+    .action(async (name, opts) => {
+      const data = await createFolder(client, { name, parentId: opts.parent });
+      if (opts.json) return writeJson(data);
+      const id =
+        data && typeof data === "object" && "id" in data ? ` (${String(data.id)})` : "";
+      writeSuccess(`Created folder "${name}"${id}`);
+    });
+
+  folder
+    .command("rename <folderId> <name>")
+    .description("Rename a folder")
+    .option("--json", "output JSON")
+    .action(async (folderId, name, opts) => {
+      const data = await renameFolder(client, { folderId, name });
+      if (opts.json) return writeJson(data);
+      writeSuccess(`Renamed folder ${folderId} to "${name}"`);
+    });
+
+  folder
+    .command("move <folderId>")
+    .description("Move a folder under another folder")
+    .requiredOption("--parent <id>", "new parent folder ID")
+    .option("--json", "output JSON")
+    .action(async (folderId, opts) => {
+      const data = await moveFolder(client, { folderId, parentId: opts.parent });
+      if (opts.json) return writeJson(data);
+      writeSuccess(`Moved folder ${folderId} under ${opts.parent}`);
+    });
+
+  folder
+    .command("delete <folderId>")
+    .description("Delete a folder")
+    .option("-y, --yes", "skip the confirmation prompt")
+    .option("--json", "output JSON")
+    .action(async (folderId, opts) => {
+      if (!opts.yes && !(await confirmAction(`Delete folder ${folderId}?`))) {
+        writeError("Aborted");
+        process.exitCode = 1;
+        return;
+      }
+      const data = await deleteFolder(client, { folderId });
+      if (opts.json) return writeJson(data);
+      writeSuccess(`Deleted folder ${folderId}`);
+    });
+
+  folder
+    .command("export [folderId]")
+    .description(
+      "Export all boards in a folder to Obsidian markdown (default: every folder)"
+    )
     .option("--out <dir>", "output directory", "./docs")
     .option("--type <type>", "output type (original|summary|both)", "both")
-    .option("--limit <n>", "max boards to export", (v) => parseInt(v, 10), 50)
+    .option("--limit <n>", "max boards to export (default: all)", (v) =>
+      parseInt(v, 10)
+    )
+    .option("-r, --recursive", "include child folders as mirrored subdirectories")
+    .option("--daily-notes", "link each note from its YYYY-MM-DD daily note")
+    .option("--daily-folder <dir>", "daily notes folder in the vault")
+    .option("--daily-heading <text>", "daily note heading for the links (default: Daglo)")
+    .option("--moc", "write Map-of-Content index notes per folder and keyword")
+    .option("--template-dir <dir>", "directory with original.md / summary.md templates")
+    .option(
+      "--filename <pattern>",
+      "note filename pattern ({date} {time} {name} {id} {folder})",
+      asOptionParser(assertFilenamePattern)
+    )
+    .option("--timezone <tz>", "IANA timezone for filename dates", asOptionParser(assertTimeZone))
     .option("--json", "output JSON")
     .action(async (folderId, opts) => {
       const result = (await batchExportFolder(client, {
         folderId,
+        recursive: opts.recursive,
+        dailyNotes: opts.dailyNotes,
+        dailyNotesFolder: opts.dailyFolder,
+        dailyNotesHeading: opts.dailyHeading,
+        moc: opts.moc,
+        templateDir: opts.templateDir,
+        filenamePattern: opts.filename,
+        timezone: opts.timezone,
         outputDir: opts.out,
         outputType: opts.type,
         limit: opts.limit,
@@ -0,0 +1,23 @@
+import { parseBoardIds } from "../utils/board.js";
+
+export const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+};
+
+/**
+ * Uses board IDs from the command line, or reads them from stdin when none
+ * are given (or `-` is passed) and input is piped.
+ */
+export const resolveBoardIds = async (boardIds: string[]): Promise<string[]> => {
+  const wantsStdin =
+    boardIds.includes("-") || (boardIds.length === 0 && !process.stdin.isTTY);
+  const ids = boardIds.filter((id) => id !== "-");
+  if (!wantsStdin) return ids;
+
+  const piped = parseBoardIds(await readStdin());
+  return [...new Set([...ids, ...piped])];
+};
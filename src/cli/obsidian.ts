@@ -1,7 +1,14 @@
 import { Command } from "commander";
 import { DagloApiClient } from "../api/client.js";
-import { exportToObsidian } from "../handlers/obsidian.js";
-import { writeJson, writeFilesWritten } from "./render/format.js";
+import { exportToObsidian, syncObsidianVault } from "../handlers/obsidian.js";
+import { assertFilenamePattern, assertTimeZone } from "../utils/note-filename.js";
+import { asOptionParser } from "./options.js";
+import {
+  writeError,
+  writeJson,
+  writeFilesWritten,
+  writeKeyValue,
+} from "./render/format.js";
 
 export const registerObsidianCommand = (
   program: Command,
@@ -19,6 +26,20 @@ export const registerObsidianCommand = (
     .option("--no-summary", "omit summary")
     .option("--no-keywords", "omit keywords")
     .option("--no-ai-summary", "omit AI summary")
+    .option("--with-media", "download the media into the vault's attachments and embed it")
+    .option("--canvas", "also write a .canvas mind map of the segment summaries")
+    .option("--mindmap", "embed a Mermaid mindmap in the summary note")
+    .option("--daily-notes", "link each note from its YYYY-MM-DD daily note")
+    .option("--daily-folder <dir>", "daily notes folder in the vault")
+    .option("--daily-heading <text>", "daily note heading for the links (default: Daglo)")
+    .option("--moc", "write Map-of-Content index notes per folder and keyword")
+    .option("--template-dir <dir>", "directory with original.md / summary.md templates")
+    .option(
+      "--filename <pattern>",
+      "note filename pattern ({date} {time} {name} {id} {folder})",
+      asOptionParser(assertFilenamePattern)
+    )
+    .option("--timezone <tz>", "IANA timezone for filename dates", asOptionParser(assertTimeZone))
     .option("--json", "output JSON")
     .action(async (boardId, opts) => {
       const data = (await exportToObsidian(client, {
@@ -30,6 +51,16 @@ export const registerObsidianCommand = (
         includeSummary: opts.summary !== false,
         includeKeywords: opts.keywords !== false,
         includeAiSummary: opts.aiSummary !== false,
+        withMedia: opts.withMedia,
+        canvas: opts.canvas,
+        mindmap: opts.mindmap,
+        dailyNotes: opts.dailyNotes,
+        dailyNotesFolder: opts.dailyFolder,
+        dailyNotesHeading: opts.dailyHeading,
+        moc: opts.moc,
+        templateDir: opts.templateDir,
+        filenamePattern: opts.filename,
+        timezone: opts.timezone,
       })) as Record<string, unknown>;
 
       if (opts.json) return writeJson(data);
@@ -41,4 +72,59 @@ export const registerObsidianCommand = (
             : [];
       writeFilesWritten(files);
     });
+
+  obs
+    .command("sync")
+    .description("Incrementally sync boards into an Obsidian vault")
+    .option("--folder <id>", "only sync this folder and its children")
+    .option("--out <dir>", "vault directory", "./docs")
+    .option("--type <type>", "output type (original|summary|both)", "both")
+    .option("--prune", "delete notes for boards deleted in Daglo")
+    .option("--force", "re-fetch every board, ignoring the manifest")
+    .option("--daily-notes", "link each note from its YYYY-MM-DD daily note")
+    .option("--daily-folder <dir>", "daily notes folder in the vault")
+    .option("--daily-heading <text>", "daily note heading for the links (default: Daglo)")
+    .option("--moc", "write Map-of-Content index notes per folder and keyword")
+    .option("--template-dir <dir>", "directory with original.md / summary.md templates")
+    .option(
+      "--filename <pattern>",
+      "note filename pattern ({date} {time} {name} {id} {folder})",
+      asOptionParser(assertFilenamePattern)
+    )
+    .option("--timezone <tz>", "IANA timezone for filename dates", asOptionParser(assertTimeZone))
+    .option("--json", "output JSON")
+    .action(async (opts) => {
+      const result = await syncObsidianVault(client, {
+        folderId: opts.folder,
+        outputDir: opts.out,
+        outputType: opts.type,
+        prune: opts.prune,
+        force: opts.force,
+        dailyNotes: opts.dailyNotes,
+        dailyNotesFolder: opts.dailyFolder,
+        dailyNotesHeading: opts.dailyHeading,
+        moc: opts.moc,
+        templateDir: opts.templateDir,
+        filenamePattern: opts.filename,
+        timezone: opts.timezone,
+      });
+      if (result.errors.length) process.exitCode = 1;
+      if (opts.json) return writeJson(result);
+
+      writeKeyValue([
+        ["Added", String(result.added.length)],
+        ["Updated", String(result.updated.length)],
+        ["Renamed", String(result.renamed.length)],
+        ["Unchanged", String(result.unchanged)],
+        ["Deleted", String(result.deleted.length)],
+        ["Orphaned", String(result.orphaned.length)],
+        ["Errors", String(result.errors.length)],
+      ]);
+      for (const file of result.orphaned) {
+        writeError(`Kept edited note no longer generated: ${file}`);
+      }
+      for (const { boardId, error } of result.errors) {
+        writeError(`${boardId}: ${error}`);
+      }
+    });
 };
@@ -0,0 +1,52 @@
+import { InvalidArgumentError } from "commander";
+import type { ZodType, ZodTypeDef } from "zod";
+
+export const splitCsv = (v: string) =>
+  v
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// Turns a throwing parser into a commander option parser with a clean error.
+export const asOptionParser =
+  <T>(parse: (value: string) => T) =>
+  (value: string): T => {
+    try {
+      return parse(value);
+    } catch (error) {
+      throw new InvalidArgumentError(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  };
+
+// Whole-number option values; bare parseInt accepts "12abc" and turns "abc" into NaN.
+export const wholeNumberOption = (label: string, min = 0) =>
+  asOptionParser((value: string): number => {
+    const n = Number(value.trim());
+    if (!/^\d+$/.test(value.trim()) || n < min) {
+      throw new Error(`Invalid ${label} "${value}" (use a whole number, ${min} or more)`);
+    }
+    return n;
+  });
+
+export const numberOption = (label: string) =>
+  asOptionParser((value: string): number => {
+    const n = Number(value.trim());
+    if (value.trim() === "" || !Number.isFinite(n)) {
+      throw new Error(`Invalid ${label} "${value}" (use a number)`);
+    }
+    return n;
+  });
+
+export const parseArgs = <T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  input: unknown
+): T => {
+  const result = schema.safeParse(input);
+  if (result.success) return result.data;
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join(".")}: ${issue.message}`
+  );
+  throw new Error(`Invalid options: ${issues.join("; ")}`);
+};
@@ -46,3 +46,18 @@ export const promptCredentials = async (defaults: {
   rl.close();
   return { email, password };
 };
+
+export const confirmAction = async (question: string): Promise<boolean> => {
+  if (!process.stdin.isTTY) {
+    throw new Error("No TTY available to confirm; pass --yes to proceed.");
+  }
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+    terminal: true,
+  });
+  const answer = (await rl.question(`${question} [y/N] `)).trim().toLowerCase();
+  rl.close();
+  return answer === "y" || answer === "yes";
+};
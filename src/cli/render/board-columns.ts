@@ -0,0 +1,43 @@
+import { NormalizedBoard } from "../../schemas/boards.js";
+import { formatClock } from "./format.js";
+import { Column } from "./table.js";
+
+type BoardColumnFactory = (folderNames: Map<string, string>) => Column<NormalizedBoard>;
+
+const BOARD_COLUMNS: Record<string, BoardColumnFactory> = {
+  id: () => ({ header: "ID", get: (r) => r.id }),
+  name: () => ({ header: "NAME", get: (r) => r.name }),
+  status: () => ({ header: "STATUS", get: (r) => r.status ?? "" }),
+  created: () => ({ header: "CREATED", get: (r) => r.createdAt ?? "" }),
+  updated: () => ({ header: "UPDATED", get: (r) => r.updatedAt ?? "" }),
+  deleted: () => ({ header: "DELETED", get: (r) => r.deletedAt ?? "" }),
+  type: () => ({ header: "TYPE", get: (r) => r.type ?? "" }),
+  duration: () => ({
+    header: "DURATION",
+    get: (r) => (r.duration !== undefined ? formatClock(r.duration) : ""),
+  }),
+  folder: (folderNames) => ({
+    header: "FOLDER",
+    get: (r) => (r.folderId ? folderNames.get(r.folderId) ?? r.folderId : ""),
+  }),
+  fileMetaId: () => ({ header: "FILE META", get: (r) => r.fileMetaId ?? "" }),
+  starred: () => ({ header: "STARRED", get: (r) => (r.isStarred ? "★" : "") }),
+};
+
+export const BOARD_COLUMN_KEYS = Object.keys(BOARD_COLUMNS);
+export const DEFAULT_BOARD_COLUMNS = ["id", "name", "status", "created"];
+
+export const parseBoardColumns = (keys: string[]): string[] => {
+  const unknown = keys.filter((key) => !(key in BOARD_COLUMNS));
+  if (unknown.length) {
+    throw new Error(
+      `Unknown column(s): ${unknown.join(", ")}. Available: ${BOARD_COLUMN_KEYS.join(", ")}`
+    );
+  }
+  return keys;
+};
+
+export const buildBoardColumns = (
+  keys: string[],
+  folderNames: Map<string, string> = new Map()
+): Column<NormalizedBoard>[] => keys.map((key) => BOARD_COLUMNS[key](folderNames));
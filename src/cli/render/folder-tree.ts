@@ -0,0 +1,29 @@
+import chalk from "chalk";
+import { FolderTreeNode } from "../../utils/folder.js";
+
+const formatNode = (node: FolderTreeNode): string => {
+  const name = node.name || (node.isRoot ? "(root)" : "(untitled)");
+  return `${name} (${node.boardCount}) ${chalk.dim(node.id)}`;
+};
+
+export const formatFolderTree = (roots: FolderTreeNode[]): string[] => {
+  const lines: string[] = [];
+
+  const walk = (nodes: FolderTreeNode[], prefix: string) => {
+    nodes.forEach((node, index) => {
+      const last = index === nodes.length - 1;
+      lines.push(`${prefix}${last ? "└── " : "├── "}${formatNode(node)}`);
+      walk(node.children, `${prefix}${last ? "    " : "│   "}`);
+    });
+  };
+
+  for (const root of roots) {
+    lines.push(formatNode(root));
+    walk(root.children, "");
+  }
+  return lines;
+};
+
+export const writeFolderTree = (roots: FolderTreeNode[]): void => {
+  for (const line of formatFolderTree(roots)) process.stdout.write(`${line}\n`);
+};
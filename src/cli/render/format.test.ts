@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { writeJson, writeKeyValue, writeFilesWritten } from "./format.js";
+import {
+  formatDuration,
+  writeJson,
+  writeKeyValue,
+  writeFilesWritten,
+  writeJsonError,
+} from "./format.js";
+import { DagloNotFoundError } from "../../api/errors.js";
 
 let stdout: string;
 let stderr: string;
@@ -44,3 +51,37 @@ describe("writeFilesWritten", () => {
     expect(stderr).toContain("/tmp/b");
   });
 });
+
+describe("formatDuration", () => {
+  it("uses the two most significant units", () => {
+    expect(formatDuration(45)).toBe("45s");
+    expect(formatDuration(125)).toBe("2m");
+    expect(formatDuration(3 * 3600 + 120)).toBe("3h 2m");
+    expect(formatDuration(2 * 86400 + 3600)).toBe("2d 1h");
+  });
+
+  it("formats negative durations by magnitude", () => {
+    expect(formatDuration(-90)).toBe("1m");
+  });
+});
+
+describe("writeJsonError", () => {
+  it("writes API errors with status and path", () => {
+    writeJsonError(
+      new DagloNotFoundError("Failed to fetch board: Not Found", {
+        status: 404,
+        path: "/boards/b1",
+      })
+    );
+    expect(JSON.parse(stdout)).toMatchObject({
+      error: { name: "DagloNotFoundError", status: 404, path: "/boards/b1", exitCode: 4 },
+    });
+  });
+
+  it("writes plain errors with the generic exit code", () => {
+    writeJsonError(new Error("boom"));
+    expect(JSON.parse(stdout)).toEqual({
+      error: { name: "Error", message: "boom", exitCode: 1 },
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import chalk from "chalk";
+import { DagloApiError } from "../../api/errors.js";
 
 const useColor = (): boolean => {
   if (process.env.NO_COLOR) return false;
@@ -21,6 +22,27 @@ export const writeKeyValue = (rows: Array<[string, string]>): void => {
   }
 };
 
+export const formatDuration = (totalSeconds: number): string => {
+  const seconds = Math.abs(Math.floor(totalSeconds));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+};
+
+export const formatClock = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
 export const writeFilesWritten = (paths: string[]): void => {
   for (const p of paths) {
     process.stderr.write(`${chalk.green("✓")} Wrote: ${p}\n`);
@@ -34,3 +56,11 @@ export const writeSuccess = (msg: string): void => {
 export const writeError = (msg: string): void => {
   process.stderr.write(`${chalk.red("✗")} ${msg}\n`);
 };
+
+export const writeJsonError = (err: Error): void => {
+  const error =
+    err instanceof DagloApiError
+      ? err.toJSON()
+      : { name: err.name, message: err.message, exitCode: 1 };
+  writeJson({ error });
+};
@@ -4,13 +4,43 @@ import {
   createYoutubeFullSubtitledVideo,
   createYoutubeHighlightClip,
 } from "../handlers/video.js";
+import {
+  createYoutubeFullSubtitledVideoSchema,
+  createYoutubeHighlightClipSchema,
+} from "../schemas/video.js";
+import { ASS_PRESET_NAMES } from "../utils/ass.js";
+import { parseArgs, splitCsv } from "./options.js";
 import { writeJson, writeFilesWritten } from "./render/format.js";
 
-const splitCsv = (v: string) =>
-  v
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
+const addKaraokeOptions = (command: Command) =>
+  command
+    .option("--karaoke", "burn word-by-word karaoke subtitles (ASS) instead of plain lines")
+    .option("--style <preset>", `karaoke style preset (${ASS_PRESET_NAMES.join("|")})`)
+    .option("--font <name>", "karaoke font (default: a Noto CJK font matching the transcript)")
+    .option("--font-size <n>", "karaoke font size", (v) => parseInt(v, 10))
+    .option("--position <pos>", "karaoke vertical position (bottom|middle|top)")
+    .option("--highlight <color>", "karaoke colour of spoken words (#RRGGBB)")
+    .option("--text-color <color>", "karaoke colour of words not yet spoken (#RRGGBB)")
+    .option("--outline-color <color>", "karaoke outline colour (#RRGGBB)")
+    .option("--outline <px>", "karaoke outline width", (v) => parseFloat(v))
+    .option("--margin-h <px>", "karaoke left and right margin", (v) => parseInt(v, 10))
+    .option("--margin-v <px>", "karaoke margin from the top or bottom edge", (v) =>
+      parseInt(v, 10)
+    );
+
+const toKaraokeArgs = (opts: Record<string, unknown>) => ({
+  karaoke: !!opts.karaoke,
+  subtitlePreset: opts.style,
+  subtitleFont: opts.font,
+  subtitleFontSize: opts.fontSize,
+  subtitlePosition: opts.position,
+  highlightColor: opts.highlight,
+  textColor: opts.textColor,
+  outlineColor: opts.outlineColor,
+  subtitleOutline: opts.outline,
+  subtitleMarginH: opts.marginH,
+  subtitleMarginV: opts.marginV,
+});
 
 export const registerVideoCommand = (
   program: Command,
@@ -18,7 +48,7 @@ export const registerVideoCommand = (
 ) => {
   const video = program.command("video").description("Video commands");
 
-  video
+  const clip = video
     .command("clip <youtubeUrl>")
     .description("Generate a YouTube highlight clip with burned-in subtitles")
     .option("--board-id <id>", "board ID")
@@ -37,31 +67,37 @@ export const registerVideoCommand = (
       42
     )
     .option("--shorts", "vertical 9:16 output")
-    .option("--keywords <list>", "comma-separated keywords", splitCsv)
+    .option("--keywords <list>", "comma-separated keywords", splitCsv);
+  addKaraokeOptions(clip)
     .option("--json", "output JSON")
     .action(async (youtubeUrl, opts) => {
-      const data = (await createYoutubeHighlightClip(client, {
-        youtubeUrl,
-        boardId: opts.boardId,
-        fileMetaId: opts.fileMeta,
-        outputDir: opts.out,
-        clipLengthMinutes: opts.length,
-        subtitleMaxLineLength: opts.maxLine,
-        shortsMode: !!opts.shorts,
-        highlightKeywords: opts.keywords,
-      })) as Record<string, unknown>;
+      const data = (await createYoutubeHighlightClip(
+        client,
+        parseArgs(createYoutubeHighlightClipSchema, {
+          youtubeUrl,
+          boardId: opts.boardId,
+          fileMetaId: opts.fileMeta,
+          outputDir: opts.out,
+          clipLengthMinutes: opts.length,
+          subtitleMaxLineLength: opts.maxLine,
+          shortsMode: !!opts.shorts,
+          highlightKeywords: opts.keywords,
+          ...toKaraokeArgs(opts),
+        })
+      )) as Record<string, unknown>;
 
       if (opts.json) return writeJson(data);
       const files = [
         data.videoPath,
         data.clipPath,
         data.srtPath,
+        data.assPath,
         data.finalPath,
       ].filter((p): p is string => typeof p === "string");
       writeFilesWritten(files);
     });
 
-  video
+  const subtitle = video
     .command("subtitle <youtubeUrl>")
     .description("Burn full transcript subtitles into a YouTube video")
     .option("--board-id <id>", "board ID")
@@ -72,21 +108,27 @@ export const registerVideoCommand = (
       "max characters per subtitle segment",
       (v) => parseInt(v, 10),
       42
-    )
+    );
+  addKaraokeOptions(subtitle)
     .option("--json", "output JSON")
     .action(async (youtubeUrl, opts) => {
-      const data = (await createYoutubeFullSubtitledVideo(client, {
-        youtubeUrl,
-        boardId: opts.boardId,
-        fileMetaId: opts.fileMeta,
-        outputDir: opts.out,
-        subtitleMaxLineLength: opts.maxLine,
-      })) as Record<string, unknown>;
+      const data = (await createYoutubeFullSubtitledVideo(
+        client,
+        parseArgs(createYoutubeFullSubtitledVideoSchema, {
+          youtubeUrl,
+          boardId: opts.boardId,
+          fileMetaId: opts.fileMeta,
+          outputDir: opts.out,
+          subtitleMaxLineLength: opts.maxLine,
+          ...toKaraokeArgs(opts),
+        })
+      )) as Record<string, unknown>;
 
       if (opts.json) return writeJson(data);
       const files = [
         data.videoPath,
         data.srtPath,
+        data.assPath,
         data.finalPath,
       ].filter((p): p is string => typeof p === "string");
       writeFilesWritten(files);
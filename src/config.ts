@@ -2,3 +2,7 @@ export const DAGLO_API_BASE = "https://backend.daglo.ai";
 export const DAGLO_EMAIL_ENV = "DAGLO_EMAIL";
 export const DAGLO_PASSWORD_ENV = "DAGLO_PASSWORD";
 export const DAGLO_REFRESH_TOKEN_ENV = "DAGLO_REFRESH_TOKEN";
+// Daglo does not publish its token refresh endpoint, so this path is only a
+// default; set DAGLO_REFRESH_PATH when the server answers somewhere else.
+export const DAGLO_REFRESH_PATH = "/user/refresh";
+export const DAGLO_REFRESH_PATH_ENV = "DAGLO_REFRESH_PATH";
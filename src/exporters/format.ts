@@ -0,0 +1,65 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { Segment } from "../schemas/boards.js";
+import { formatTimestampLink, MediaLink, resolveMediaLink } from "../utils/media-link.js";
+import { formatOriginalContent } from "../utils/obsidian.js";
+import { formatMinutesSeconds } from "../utils/template.js";
+import { listSentences } from "../utils/transcript.js";
+import { ExportBoard } from "./types.js";
+
+export const SENTENCES_PER_PARAGRAPH = 4;
+
+export interface TextParagraph {
+  text: string;
+  /** Seconds from the start of the recording; undefined when the script has no timing. */
+  startTime?: number;
+}
+
+/** Groups the transcript into paragraphs, timed when the script has sentence timing. */
+export const toTranscriptParagraphs = (board: ExportBoard): TextParagraph[] => {
+  const sentences = listSentences(board.transcript);
+  if (sentences.length) {
+    const paragraphs: TextParagraph[] = [];
+    for (let i = 0; i < sentences.length; i += SENTENCES_PER_PARAGRAPH) {
+      const group = sentences.slice(i, i + SENTENCES_PER_PARAGRAPH);
+      paragraphs.push({
+        text: group.map((sentence) => sentence.text).join(" "),
+        startTime: group[0].startTime,
+      });
+    }
+    return paragraphs;
+  }
+
+  return formatOriginalContent(board.transcript.content ?? "")
+    .split("\n\n")
+    .filter((paragraph) => paragraph.trim())
+    .map((text) => ({ text }));
+};
+
+// Wikilinks to vault files only resolve in Obsidian, so other targets link web media only.
+const toWebMedia = (board: ExportBoard): MediaLink | undefined => {
+  const media = resolveMediaLink(board);
+  return media?.kind === "file" ? undefined : media;
+};
+
+/** `m:ss` as a CommonMark link to that moment of the board's media, when it has web media. */
+export const createTimestampFormatter = (board: ExportBoard) => {
+  const media = toWebMedia(board);
+  return (seconds: number) => {
+    const clock = formatMinutesSeconds(seconds);
+    return media ? formatTimestampLink(media, seconds, clock) : clock;
+  };
+};
+
+export const formatSegmentLine = (
+  segment: Segment,
+  timestamp: (seconds: number) => string
+) => {
+  const speaker = segment.speaker ? `${segment.speaker}: ` : "";
+  return `**${timestamp(segment.startTime)}** ${speaker}${segment.text}`;
+};
+
+export const writeTextFile = (filePath: string, content: string) => {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, content, "utf-8");
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { buildTranscript } from "../utils/transcript.js";
+import { renderLogseqPage } from "./logseq.js";
+import { ExportBoard } from "./types.js";
+
+const board = (overrides: Partial<ExportBoard> = {}): ExportBoard => ({
+  id: "b1",
+  name: "Weekly sync",
+  createdAt: "2024-05-01T01:00:00Z",
+  keywords: ["roadmap", "hiring, Q3"],
+  segments: [{ startTime: 75, endTime: 90, text: "Roadmap review", speaker: "Kim" }],
+  transcript: buildTranscript([
+    {
+      tokens: [
+        { text: "Hello.", startTime: 0, endTime: 1 },
+        { text: " Let's start.", startTime: 1, endTime: 2 },
+      ],
+    },
+  ]),
+  ...overrides,
+});
+
+describe("renderLogseqPage", () => {
+  it("writes page properties and one block per section and paragraph", () => {
+    const page = renderLogseqPage(
+      board({ summary: "Line one\n\nLine two", duration: 125, folderPath: "Work/Calls" }),
+      "UTC"
+    );
+
+    expect(page).toBe(
+      [
+        "source:: daglo",
+        "board-id:: b1",
+        "date:: 2024-05-01",
+        "tags:: roadmap, hiring Q3",
+        "duration:: 2:05",
+        "folder:: Work/Calls",
+        "",
+        "- # Weekly sync",
+        "- 요약",
+        "\t- Line one",
+        "\t- Line two",
+        "- 키워드",
+        "\t- roadmap",
+        "\t- hiring, Q3",
+        "- 타임스탬프",
+        "\t- **1:15** Kim: Roadmap review",
+        "- 원문",
+        "\t- 0:00 Hello. Let's start.",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("links paragraph timestamps to YouTube and leaves untimed text plain", () => {
+    const page = renderLogseqPage(
+      board({
+        sourceUrl: "https://youtu.be/abc123",
+        segments: [],
+        transcript: buildTranscript([{ tokens: [{ text: "Hi.", startTime: 42, endTime: 43 }] }]),
+      })
+    );
+    expect(page).toContain("\t- [0:42](https://www.youtube.com/watch?v=abc123&t=42s) Hi.");
+
+    const untimed = renderLogseqPage(
+      board({ segments: [], transcript: { ...buildTranscript([]), content: "One. Two." } })
+    );
+    expect(untimed).toContain("- 원문\n\t- One. Two.\n");
+  });
+});
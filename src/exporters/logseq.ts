@@ -0,0 +1,97 @@
+import { resolve } from "node:path";
+import { formatDateForFilename } from "../utils/obsidian.js";
+import { formatMinutesSeconds } from "../utils/template.js";
+import {
+  createTimestampFormatter,
+  formatSegmentLine,
+  toTranscriptParagraphs,
+  writeTextFile,
+} from "./format.js";
+import { ExportBoard, ExporterDefinition } from "./types.js";
+
+// Logseq keeps one page per file in the graph's `pages` folder.
+const PAGES_DIR = "pages";
+
+const toPropertyValue = (value: string) => value.replace(/\s+/g, " ").trim();
+
+// Commas separate a property's page references, so keywords must not contain them.
+const toPageRefs = (values: string[]) =>
+  values
+    .map((value) => toPropertyValue(value).replace(/,/g, " "))
+    .filter(Boolean)
+    .join(", ");
+
+/** A top-level block with one child block per non-empty line of `children`. */
+const outlineSection = (title: string, children: string[]) =>
+  [`- ${title}`, ...children.map((child) => `\t- ${child}`)].join("\n");
+
+const toLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Logseq page: page properties first, then one outline section each for the
+ * summaries, keywords and segments, and one block per transcript paragraph.
+ */
+export const renderLogseqPage = (board: ExportBoard, timeZone?: string) => {
+  const timestamp = createTimestampFormatter(board);
+  const properties: Array<[string, string | undefined]> = [
+    ["source", "daglo"],
+    ["board-id", board.id],
+    ["date", formatDateForFilename(board.createdAt, timeZone)],
+    ["tags", board.keywords.length ? toPageRefs(board.keywords) : undefined],
+    ["duration", board.duration !== undefined ? formatMinutesSeconds(board.duration) : undefined],
+    ["folder", board.folderPath],
+    ["source-url", board.sourceUrl],
+    ["share-url", board.shareUrl],
+  ];
+  const lines = properties
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .map(([key, value]) => `${key}:: ${toPropertyValue(value)}`);
+
+  const sections: string[] = [`- # ${toPropertyValue(board.name)}`];
+  if (board.aiSummary) sections.push(outlineSection("AI 요약", toLines(board.aiSummary)));
+  if (board.summary) sections.push(outlineSection("요약", toLines(board.summary)));
+  if (board.keywords.length) {
+    sections.push(outlineSection("키워드", board.keywords.map(toPropertyValue)));
+  }
+  if (board.segments.length) {
+    sections.push(
+      outlineSection(
+        "타임스탬프",
+        board.segments.map((segment) => toPropertyValue(formatSegmentLine(segment, timestamp)))
+      )
+    );
+  }
+
+  const paragraphs = toTranscriptParagraphs(board);
+  if (paragraphs.length) {
+    sections.push(
+      outlineSection(
+        "원문",
+        paragraphs.map((paragraph) => {
+          const text = toPropertyValue(paragraph.text);
+          return paragraph.startTime === undefined
+            ? text
+            : `${timestamp(paragraph.startTime)} ${text}`;
+        })
+      )
+    );
+  }
+
+  return `${[...lines, "", ...sections].join("\n")}\n`;
+};
+
+export const logseqExporter: ExporterDefinition = {
+  target: "logseq",
+  description: "Logseq outline pages with page properties and timestamped blocks",
+  create: () => ({
+    exportBoard: (board, { outputDir, baseName, timeZone }) => {
+      const filePath = resolve(outputDir, PAGES_DIR, `${baseName}.md`);
+      writeTextFile(filePath, renderLogseqPage(board, timeZone));
+      return [filePath];
+    },
+  }),
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { buildTranscript } from "../utils/transcript.js";
+import { renderMarkdownDocument } from "./markdown.js";
+import { ExportBoard } from "./types.js";
+
+const board = (overrides: Partial<ExportBoard> = {}): ExportBoard => ({
+  id: "b1",
+  name: "Weekly sync",
+  createdAt: "2024-05-01T01:00:00Z",
+  keywords: [],
+  segments: [],
+  transcript: buildTranscript([]),
+  ...overrides,
+});
+
+describe("renderMarkdownDocument", () => {
+  it("renders plain CommonMark sections without Obsidian syntax", () => {
+    const doc = renderMarkdownDocument(
+      board({
+        aiSummary: "Point one\n\nPoint two",
+        keywords: ["AI", "roadmap"],
+        sourceUrl: "https://cdn.example.com/audio.m4a",
+        segments: [{ startTime: 61, endTime: 70, text: "Intro", speaker: undefined }],
+        transcript: buildTranscript([
+          {
+            tokens: [1, 2, 3, 4, 5].map((n) => ({
+              text: ` S${n}.`,
+              startTime: n * 10,
+              endTime: n * 10 + 5,
+            })),
+          },
+        ]),
+      }),
+      "UTC"
+    );
+
+    expect(doc).toBe(
+      [
+        "# Weekly sync",
+        "",
+        "- 날짜: 2024-05-01",
+        "- 원본: <https://cdn.example.com/audio.m4a>",
+        "",
+        "## AI 요약",
+        "",
+        "> Point one\n>\n> Point two",
+        "",
+        "## 키워드",
+        "",
+        "AI, roadmap",
+        "",
+        "## 타임스탬프",
+        "",
+        "- **[1:01](https://cdn.example.com/audio.m4a#t=61)** Intro",
+        "",
+        "## 원문",
+        "",
+        "[0:10](https://cdn.example.com/audio.m4a#t=10) S1. S2. S3. S4.",
+        "",
+        "[0:50](https://cdn.example.com/audio.m4a#t=50) S5.",
+        "",
+      ].join("\n")
+    );
+    expect(doc).not.toMatch(/\[\[|^---/m);
+  });
+
+  it("keeps timestamps as plain text for media only a vault can open", () => {
+    const doc = renderMarkdownDocument(
+      board({
+        fileUrl: "recordings/call.mp3",
+        segments: [{ startTime: 5, endTime: 9, text: "Hi", speaker: undefined }],
+      })
+    );
+    expect(doc).toContain("- **0:05** Hi");
+  });
+});
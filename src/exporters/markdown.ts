@@ -0,0 +1,69 @@
+import { resolve } from "node:path";
+import { formatDateForFilename } from "../utils/obsidian.js";
+import { formatMinutesSeconds } from "../utils/template.js";
+import {
+  createTimestampFormatter,
+  formatSegmentLine,
+  toTranscriptParagraphs,
+  writeTextFile,
+} from "./format.js";
+import { ExportBoard, ExporterDefinition } from "./types.js";
+
+/** Plain CommonMark: no frontmatter, wikilinks, callouts or tags. */
+export const renderMarkdownDocument = (board: ExportBoard, timeZone?: string) => {
+  const timestamp = createTimestampFormatter(board);
+  const details = [
+    `- 날짜: ${formatDateForFilename(board.createdAt, timeZone)}`,
+    board.duration !== undefined ? `- 길이: ${formatMinutesSeconds(board.duration)}` : "",
+    board.folderPath ? `- 폴더: ${board.folderPath}` : "",
+    board.sourceUrl ? `- 원본: <${board.sourceUrl}>` : "",
+    board.shareUrl ? `- 공유: <${board.shareUrl}>` : "",
+  ].filter(Boolean);
+
+  const sections = [`# ${board.name}`, details.join("\n")];
+  if (board.aiSummary) {
+    sections.push(
+      "## AI 요약",
+      board.aiSummary
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n")
+    );
+  }
+  if (board.summary) sections.push("## 요약", board.summary);
+  if (board.keywords.length) sections.push("## 키워드", board.keywords.join(", "));
+  if (board.segments.length) {
+    sections.push(
+      "## 타임스탬프",
+      board.segments.map((segment) => `- ${formatSegmentLine(segment, timestamp)}`).join("\n")
+    );
+  }
+
+  const paragraphs = toTranscriptParagraphs(board);
+  if (paragraphs.length) {
+    sections.push(
+      "## 원문",
+      paragraphs
+        .map((paragraph) =>
+          paragraph.startTime === undefined
+            ? paragraph.text
+            : `${timestamp(paragraph.startTime)} ${paragraph.text}`
+        )
+        .join("\n\n")
+    );
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+export const markdownExporter: ExporterDefinition = {
+  target: "markdown",
+  description: "One CommonMark file per board, readable in any Markdown viewer",
+  create: () => ({
+    exportBoard: (board, { outputDir, baseName, timeZone }) => {
+      const filePath = resolve(outputDir, `${baseName}.md`);
+      writeTextFile(filePath, renderMarkdownDocument(board, timeZone));
+      return [filePath];
+    },
+  }),
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildTranscript } from "../utils/transcript.js";
+import { NOTION_INDEX_FILE, notionExporter, toCsv } from "./notion.js";
+import { ExportBoard } from "./types.js";
+
+let tmp: string;
+
+beforeEach(() => {
+  tmp = mkdtempSync(join(tmpdir(), "notion-"));
+});
+afterEach(() => rmSync(tmp, { recursive: true, force: true }));
+
+const board = (overrides: Partial<ExportBoard> = {}): ExportBoard => ({
+  id: "b1",
+  name: "Weekly sync",
+  createdAt: "2024-05-01T01:00:00Z",
+  keywords: [],
+  segments: [],
+  transcript: buildTranscript([]),
+  ...overrides,
+});
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes and line breaks", () => {
+    expect(toCsv([["a", "b,c"], ['say "hi"', "x\ny"]])).toBe(
+      'a,"b,c"\r\n"say ""hi""","x\ny"\r\n'
+    );
+  });
+});
+
+describe("notionExporter", () => {
+  it("writes a page per board and a CSV index on finish", () => {
+    const exporter = notionExporter.create();
+    const files = [
+      ...exporter.exportBoard(
+        board({ keywords: ["AI", "roadmap"], duration: 90, folderPath: "Work" }),
+        { outputDir: tmp, baseName: "2024-05-01 Weekly sync", timeZone: "UTC" }
+      ),
+      ...exporter.exportBoard(board({ id: "b2", name: 'The "Q3" plan' }), {
+        outputDir: tmp,
+        baseName: "2024-05-01 The Q3 plan",
+        timeZone: "UTC",
+      }),
+      ...exporter.finish!({ outputDir: tmp, timeZone: "UTC" }),
+    ];
+
+    expect(files).toEqual([
+      join(tmp, "2024-05-01 Weekly sync.md"),
+      join(tmp, "2024-05-01 The Q3 plan.md"),
+      join(tmp, NOTION_INDEX_FILE),
+    ]);
+    expect(readFileSync(files[0], "utf-8")).toMatch(/^# Weekly sync\n/);
+    expect(readFileSync(files[2], "utf-8").split("\r\n")).toEqual([
+      "Name,Created,Folder,Keywords,Duration,Source URL,File",
+      'Weekly sync,2024-05-01,Work,"AI, roadmap",1:30,,2024-05-01 Weekly sync.md',
+      '"The ""Q3"" plan",2024-05-01,,,,,2024-05-01 The Q3 plan.md',
+      "",
+    ]);
+  });
+
+  it("skips the index when nothing was exported", () => {
+    expect(notionExporter.create().finish!({ outputDir: tmp })).toEqual([]);
+  });
+});
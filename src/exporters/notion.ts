@@ -0,0 +1,54 @@
+import { resolve } from "node:path";
+import { formatDateForFilename } from "../utils/obsidian.js";
+import { formatMinutesSeconds } from "../utils/template.js";
+import { writeTextFile } from "./format.js";
+import { renderMarkdownDocument } from "./markdown.js";
+import { ExportBoard, ExporterDefinition } from "./types.js";
+
+/** Notion turns this CSV into a database when the export folder is imported. */
+export const NOTION_INDEX_FILE = "Daglo.csv";
+
+const CSV_COLUMNS = ["Name", "Created", "Folder", "Keywords", "Duration", "Source URL", "File"];
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) =>
+  `${rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n")}\r\n`;
+
+export const toNotionRow = (board: ExportBoard, file: string, timeZone?: string) => [
+  board.name,
+  formatDateForFilename(board.createdAt, timeZone),
+  board.folderPath ?? "",
+  board.keywords.join(", "),
+  board.duration !== undefined ? formatMinutesSeconds(board.duration) : "",
+  board.sourceUrl ?? "",
+  file,
+];
+
+/**
+ * A Markdown page per board plus a CSV index of them all, the two formats
+ * Notion's "Import" accepts; the page's `# title` becomes the Notion page name.
+ */
+export const notionExporter: ExporterDefinition = {
+  target: "notion",
+  description: "Notion-importable Markdown pages with a CSV database index",
+  create: () => {
+    const rows: string[][] = [];
+    return {
+      exportBoard: (board, { outputDir, baseName, timeZone }) => {
+        const file = `${baseName}.md`;
+        const filePath = resolve(outputDir, file);
+        writeTextFile(filePath, renderMarkdownDocument(board, timeZone));
+        rows.push(toNotionRow(board, file, timeZone));
+        return [filePath];
+      },
+      finish: ({ outputDir }) => {
+        if (rows.length === 0) return [];
+        const filePath = resolve(outputDir, NOTION_INDEX_FILE);
+        writeTextFile(filePath, toCsv([CSV_COLUMNS, ...rows]));
+        return [filePath];
+      },
+    };
+  },
+};
@@ -0,0 +1,137 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { mergeNote } from "../utils/managed-note.js";
+import { MediaLink, resolveMediaLink } from "../utils/media-link.js";
+import { buildMermaidMindmap } from "../utils/mermaid.js";
+import { loadNoteTemplates, NoteTemplates } from "../utils/note-templates.js";
+import {
+  buildNoteContext,
+  collectSpeakers,
+  composeNote,
+  generateFrontmatter,
+} from "../utils/obsidian.js";
+import { listSentences } from "../utils/transcript.js";
+import { ExportBoard, ExporterDefinition, OutputType } from "./types.js";
+
+export interface RenderedNote {
+  kind: "original" | "summary";
+  /** Path relative to the board's export directory. */
+  path: string;
+  content: string;
+}
+
+export interface ObsidianNoteOptions {
+  templates: NoteTemplates;
+  outputType: OutputType;
+  baseFilename: string;
+  timeZone?: string;
+  /** Filename of the downloaded media in the attachments folder. */
+  attachment?: string;
+  /** Overrides the media the board's own URLs point to. */
+  media?: MediaLink;
+  mindmap?: boolean;
+}
+
+// Re-exports merge into the existing note so user edits outside managed regions survive.
+// Returns what was written.
+export const writeNote = (filePath: string, content: string): string => {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const merged = existsSync(filePath)
+    ? mergeNote(readFileSync(filePath, "utf-8"), content)
+    : content;
+  writeFileSync(filePath, merged, "utf-8");
+  return merged;
+};
+
+export const renderObsidianNotes = (
+  board: ExportBoard,
+  options: ObsidianNoteOptions
+): RenderedNote[] => {
+  const { templates, outputType, baseFilename, timeZone } = options;
+  const { content } = board.transcript;
+  const sentences = listSentences(board.transcript);
+
+  const frontmatter = generateFrontmatter({
+    title: board.name,
+    date: board.createdAt,
+    timeZone,
+    tags: templates.tags,
+    keywords: board.keywords,
+    boardId: board.id,
+    created: board.createdAt,
+    duration: board.duration,
+    speakers: collectSpeakers([...board.segments, ...board.transcript.paragraphs]),
+    folder: board.folderPath,
+    boardType: board.type,
+    sourceUrl: board.sourceUrl,
+    shareUrl: board.shareUrl,
+  });
+  const context = buildNoteContext({
+    title: board.name,
+    createdAt: board.createdAt,
+    timeZone,
+    boardId: board.id,
+    originalFilename: `${baseFilename}.md`,
+    attachment: options.attachment,
+    tags: templates.tags,
+    keywords: board.keywords,
+    summary: board.summary,
+    aiSummary: board.aiSummary,
+    segments: board.segments,
+    sentences,
+    content,
+    media: options.media ?? resolveMediaLink(board),
+    mindmap:
+      options.mindmap && board.segments.length
+        ? buildMermaidMindmap({
+            title: board.name,
+            segments: board.segments,
+            keywords: board.keywords,
+          })
+        : undefined,
+  });
+
+  const notes: RenderedNote[] = [];
+
+  if ((outputType === "original" || outputType === "both") && content) {
+    notes.push({
+      kind: "original",
+      path: join("original", `${baseFilename}.md`),
+      content: composeNote(frontmatter, templates.original(context)),
+    });
+  }
+
+  if (outputType === "summary" || outputType === "both") {
+    notes.push({
+      kind: "summary",
+      path: join("summary", `${baseFilename}.md`),
+      content: composeNote(frontmatter, templates.summary(context)),
+    });
+  }
+
+  return notes;
+};
+
+export const obsidianExporter: ExporterDefinition = {
+  target: "obsidian",
+  description: "Obsidian notes with frontmatter, templates and managed regions",
+  create: (options = {}) => {
+    const templates = loadNoteTemplates(options.templateDir);
+    return {
+      exportBoard: (board, { outputDir, baseName, timeZone, attachment, media }) =>
+        renderObsidianNotes(board, {
+          templates,
+          outputType: options.outputType ?? "both",
+          baseFilename: baseName,
+          timeZone,
+          attachment,
+          media,
+          mindmap: options.mindmap,
+        }).map((note) => {
+          const filePath = resolve(outputDir, note.path);
+          writeNote(filePath, note.content);
+          return filePath;
+        }),
+    };
+  },
+};
@@ -0,0 +1,27 @@
+import { logseqExporter } from "./logseq.js";
+import { markdownExporter } from "./markdown.js";
+import { notionExporter } from "./notion.js";
+import { obsidianExporter } from "./obsidian.js";
+import { ExporterDefinition } from "./types.js";
+
+const exporters = new Map<string, ExporterDefinition>();
+
+export const registerExporter = (definition: ExporterDefinition) => {
+  exporters.set(definition.target, definition);
+};
+
+export const listExporters = (): ExporterDefinition[] => [...exporters.values()];
+
+export const getExporter = (target: string): ExporterDefinition => {
+  const definition = exporters.get(target);
+  if (!definition) {
+    throw new Error(
+      `Unknown export target "${target}" (available: ${[...exporters.keys()].join(", ")})`
+    );
+  }
+  return definition;
+};
+
+for (const definition of [obsidianExporter, logseqExporter, notionExporter, markdownExporter]) {
+  registerExporter(definition);
+}
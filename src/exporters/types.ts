@@ -0,0 +1,66 @@
+import { Segment } from "../schemas/boards.js";
+import { MediaLink } from "../utils/media-link.js";
+import { Transcript } from "../utils/transcript.js";
+
+export type OutputType = "original" | "summary" | "both";
+
+/** Everything an exporter needs about one board, fetched and normalized up front. */
+export interface ExportBoard {
+  id: string;
+  name: string;
+  /** ISO timestamp; the export time when Daglo did not report one. */
+  createdAt: string;
+  updatedAt?: string;
+  type?: string;
+  /** Recording length in seconds. */
+  duration?: number;
+  folderId?: string;
+  /** Daglo folder path, e.g. `Work/Calls`. */
+  folderPath?: string;
+  sourceUrl?: string;
+  shareUrl?: string;
+  fileUrl?: string;
+  summary?: string;
+  aiSummary?: string;
+  keywords: string[];
+  /** Segment summaries of the file, or the board's own segments. */
+  segments: Segment[];
+  /** The timed script, with no paragraphs when the board has none, and its plain text. */
+  transcript: Transcript & { content?: string };
+}
+
+export interface ExportContext {
+  outputDir: string;
+  /** Collision-free file name for the board, without extension. */
+  baseName: string;
+  /** IANA zone for dates; defaults to the machine's zone. */
+  timeZone?: string;
+  /** Filename of the downloaded media in the attachments folder. */
+  attachment?: string;
+  /** Overrides the media the board's own URLs point to. */
+  media?: MediaLink;
+}
+
+/** Run settings; exporters ignore the ones they have no use for. */
+export interface ExporterOptions {
+  /** Directory of note templates (default: the configured one or the built-in layout). */
+  templateDir?: string;
+  /** Which notes to write per board (default: both). */
+  outputType?: OutputType;
+  /** Embed a Mermaid mind map of the segment summaries. */
+  mindmap?: boolean;
+}
+
+export interface BoardExporter {
+  /** Writes one board's files and returns their paths. */
+  exportBoard(board: ExportBoard, context: ExportContext): string[];
+  /** Writes files that cover the whole run, such as an index. */
+  finish?(context: Pick<ExportContext, "outputDir" | "timeZone">): string[];
+}
+
+export interface ExporterDefinition {
+  target: string;
+  description: string;
+  /** Exporters may keep state across a run, so each run gets a fresh one. */
+  create: (options?: ExporterOptions) => BoardExporter;
+}
@@ -3,7 +3,11 @@ import { mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { DagloApiClient } from "../api/client.js";
-import { loginUser } from "./auth.js";
+import { saveCredentials } from "../auth/credentials.js";
+import { getAuthStatus, loginUser, refreshSession } from "./auth.js";
+
+const makeJwt = (claims: Record<string, unknown>) =>
+  `h.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.s`;
 
 global.fetch = vi.fn() as any;
 
@@ -38,6 +42,36 @@ describe("loginUser", () => {
     expect(result).toEqual({ user: { email: "u@x" } });
   });
 
+  it("records the access token's JWT exp claim as expiresAt", async () => {
+    const token = makeJwt({ exp: 1_800_000_000 });
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ accesstoken: token }),
+      text: async () => "{}",
+    });
+
+    const client = new DagloApiClient();
+    await loginUser(client, { email: "u@x", password: "pw" });
+
+    expect(client.getExpiresAt()).toBe("2027-01-15T08:00:00.000Z");
+    expect(getAuthStatus().expiresAt).toBe("2027-01-15T08:00:00.000Z");
+  });
+
+  it("falls back to expiresIn from the response body", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ accesstoken: "opaque" }),
+      text: async () => JSON.stringify({ expiresIn: 3600 }),
+    });
+
+    const client = new DagloApiClient();
+    await loginUser(client, { email: "u@x", password: "pw" });
+
+    const remaining = Date.parse(client.getExpiresAt()!) - Date.now();
+    expect(remaining).toBeGreaterThan(3500_000);
+    expect(remaining).toBeLessThanOrEqual(3600_000);
+  });
+
   it("throws when credentials missing", async () => {
     delete process.env.DAGLO_EMAIL;
     delete process.env.DAGLO_PASSWORD;
@@ -59,3 +93,103 @@ describe("loginUser", () => {
     ).rejects.toThrow(/access token not found/i);
   });
 });
+
+describe("refreshSession", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpHome = mkdtempSync(join(tmpdir(), "daglo-auth-test-"));
+    process.env.XDG_CONFIG_HOME = tmpHome;
+  });
+
+  afterEach(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    rmSync(tmpHome, { recursive: true, force: true });
+  });
+
+  it("sends the refresh token and stores the renewed tokens", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ accesstoken: "AT2", refreshtoken: "RT2" }),
+      text: async () => "{}",
+    });
+
+    const client = new DagloApiClient();
+    await refreshSession(client, "RT");
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toContain("/user/refresh");
+    expect(init.headers.refreshtoken).toBe("RT");
+    expect(client.getAuthHeaders()).toMatchObject({ Authorization: "Bearer AT2" });
+  });
+
+  it("posts to DAGLO_REFRESH_PATH when it is set", async () => {
+    process.env.DAGLO_REFRESH_PATH = "/auth/token/refresh";
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      headers: new Headers({ accesstoken: "AT2" }),
+      text: async () => "{}",
+    });
+
+    try {
+      await refreshSession(new DagloApiClient(), "RT");
+      expect((global.fetch as any).mock.calls[0][0]).toMatch(/\/auth\/token\/refresh$/);
+    } finally {
+      delete process.env.DAGLO_REFRESH_PATH;
+    }
+  });
+
+  it("throws when the refresh request is rejected", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: async () => "",
+    });
+
+    const client = new DagloApiClient();
+    await expect(refreshSession(client, "RT")).rejects.toThrow(
+      /Token refresh failed: Unauthorized/
+    );
+  });
+});
+
+describe("getAuthStatus", () => {
+  beforeEach(() => {
+    tmpHome = mkdtempSync(join(tmpdir(), "daglo-auth-test-"));
+    process.env.XDG_CONFIG_HOME = tmpHome;
+  });
+
+  afterEach(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    rmSync(tmpHome, { recursive: true, force: true });
+  });
+
+  it("reports remaining lifetime for an active session", () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "AT",
+      expiresAt: "2026-04-18T03:00:00.000Z",
+    });
+
+    const status = getAuthStatus(new Date("2026-04-18T02:00:00.000Z"));
+    expect(status).toMatchObject({ expired: false, expiresInSeconds: 3600 });
+  });
+
+  it("reports a lapsed session as expired", () => {
+    saveCredentials({
+      email: "u@x",
+      accessToken: "AT",
+      expiresAt: "2026-04-18T03:00:00.000Z",
+    });
+
+    const status = getAuthStatus(new Date("2026-04-18T04:00:00.000Z"));
+    expect(status).toMatchObject({ expired: true, expiresInSeconds: -3600 });
+  });
+
+  it("omits lifetime fields when no expiry is recorded", () => {
+    saveCredentials({ email: "u@x", accessToken: "AT" });
+    const status = getAuthStatus();
+    expect(status.loggedIn).toBe(true);
+    expect(status.expired).toBeUndefined();
+  });
+});
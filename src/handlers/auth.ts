@@ -1,4 +1,6 @@
 import { DagloApiClient } from "../api/client.js";
+import { createApiError, DagloAuthError } from "../api/errors.js";
+import { DAGLO_REFRESH_PATH, DAGLO_REFRESH_PATH_ENV } from "../config.js";
 import { logger } from "../logger.js";
 import { LoginArgs } from "../schemas/auth.js";
 import {
@@ -6,7 +8,9 @@ import {
   getJsonFromResponse,
   getLoginPayload,
   getRefreshTokenFromResponse,
+  getTokenExpiryFromResponse,
 } from "../utils/auth.js";
+import { parseResponseBody } from "../utils/http.js";
 import { deleteCredentials, loadCredentials } from "../auth/credentials.js";
 
 export const loginUser = async (
@@ -25,12 +29,16 @@ export const loginUser = async (
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
+    const errorBody = await parseResponseBody(response);
     logger.error(
-      { status: response.status, body: errorText },
+      { status: response.status, body: errorBody },
       "Login request failed"
     );
-    throw new Error(`Login failed: ${response.statusText}`);
+    throw createApiError(`Login failed: ${response.statusText}`, {
+      status: response.status,
+      path: "/user/login",
+      body: errorBody,
+    });
   }
 
   const data = await getJsonFromResponse(response);
@@ -38,10 +46,71 @@ export const loginUser = async (
   const refreshToken = getRefreshTokenFromResponse(response, data);
 
   if (!accessToken) {
-    throw new Error("Login failed: access token not found in response.");
+    throw new DagloAuthError("Login failed: access token not found in response.", {
+      status: response.status,
+      path: "/user/login",
+      body: data,
+    });
   }
 
-  client.setTokens(accessToken, refreshToken ?? undefined, payload.email);
+  client.setTokens(
+    accessToken,
+    refreshToken ?? undefined,
+    payload.email,
+    getTokenExpiryFromResponse(accessToken, data)
+  );
+  return data;
+};
+
+const getRefreshPath = (): string =>
+  process.env[DAGLO_REFRESH_PATH_ENV] || DAGLO_REFRESH_PATH;
+
+export const refreshSession = async (
+  client: DagloApiClient,
+  refreshToken: string
+): Promise<unknown> => {
+  const path = getRefreshPath();
+  const response = await fetch(`${client.baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "daglo-platform": "web",
+      refreshtoken: refreshToken,
+    },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!response.ok) {
+    const errorBody = await parseResponseBody(response);
+    logger.error(
+      { status: response.status, body: errorBody },
+      "Token refresh request failed"
+    );
+    throw createApiError(`Token refresh failed: ${response.statusText}`, {
+      status: response.status,
+      path,
+      body: errorBody,
+    });
+  }
+
+  const data = await getJsonFromResponse(response);
+  const accessToken = getAccessTokenFromResponse(response, data);
+  const nextRefreshToken = getRefreshTokenFromResponse(response, data);
+
+  if (!accessToken) {
+    throw new DagloAuthError(
+      "Token refresh failed: access token not found in response.",
+      { status: response.status, path, body: data }
+    );
+  }
+
+  // Servers that do not rotate refresh tokens omit it; keep the current one.
+  client.setTokens(
+    accessToken,
+    nextRefreshToken ?? refreshToken,
+    undefined,
+    getTokenExpiryFromResponse(accessToken, data)
+  );
   return data;
 };
 
@@ -49,15 +118,26 @@ export interface AuthStatus {
   loggedIn: boolean;
   email?: string;
   expiresAt?: string;
+  expiresInSeconds?: number;
+  expired?: boolean;
 }
 
-export const getAuthStatus = (): AuthStatus => {
+export const getAuthStatus = (now: Date = new Date()): AuthStatus => {
   const creds = loadCredentials();
   if (!creds) return { loggedIn: false };
+
+  const expiresAtMs = creds.expiresAt ? Date.parse(creds.expiresAt) : NaN;
+  if (Number.isNaN(expiresAtMs)) {
+    return { loggedIn: true, email: creds.email, expiresAt: creds.expiresAt };
+  }
+
+  const expiresInSeconds = Math.floor((expiresAtMs - now.getTime()) / 1000);
   return {
     loggedIn: true,
     email: creds.email,
     expiresAt: creds.expiresAt,
+    expiresInSeconds,
+    expired: expiresInSeconds <= 0,
   };
 };
 
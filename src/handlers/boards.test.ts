@@ -3,14 +3,25 @@ import * as os from "node:os";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import { DagloApiClient } from "../api/client.js";
+import { DagloNotFoundError } from "../api/errors.js";
+import { logger } from "../logger.js";
+import { readAuditLog } from "../audit/log.js";
 import {
+  collectBoards,
+  deleteBoard,
   listBoards,
+  listTrashedBoards,
+  purgeBoard,
+  restoreBoard,
   getBoardInfo,
   getBoardDetail,
   getBoardScript,
   updateBoardName,
+  moveBoard,
+  setBoardStarred,
   getLatestBoardContent,
   exportBoardContent,
+  downloadBoardMedia,
 } from "./boards.js";
 
 global.fetch = vi.fn() as any;
@@ -58,6 +69,63 @@ describe("listBoards", () => {
   });
 });
 
+describe("collectBoards", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const page = (ids: string[], meta?: Record<string, unknown>) => ({
+    ok: true,
+    json: async () => ({ items: ids.map((id) => ({ id, name: id })), meta }),
+  });
+
+  it("follows meta.totalPages across pages", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(page(["b1", "b2"], { totalPages: 2 }))
+      .mockResolvedValueOnce(page(["b3"], { totalPages: 2 }));
+
+    const client = new DagloApiClient();
+    const boards = await collectBoards(client, { limit: 2 });
+
+    expect(boards.map((b) => b.id)).toEqual(["b1", "b2", "b3"]);
+    const secondUrl = (global.fetch as any).mock.calls[1][0] as string;
+    expect(secondUrl).toContain("page=2");
+  });
+
+  it("follows meta.nextPage until it is null", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(page(["b1"], { nextPage: 3 }))
+      .mockResolvedValueOnce(page(["b2"], { nextPage: null }));
+
+    const client = new DagloApiClient();
+    const boards = await collectBoards(client, { limit: 1 });
+
+    expect(boards.map((b) => b.id)).toEqual(["b1", "b2"]);
+    expect((global.fetch as any).mock.calls[1][0]).toContain("page=3");
+    expect((global.fetch as any).mock.calls.length).toBe(2);
+  });
+
+  it("stops after maxItems boards", async () => {
+    (global.fetch as any).mockResolvedValueOnce(
+      page(["b1", "b2"], { totalPages: 5 })
+    );
+
+    const client = new DagloApiClient();
+    const boards = await collectBoards(client, { limit: 2 }, 1);
+
+    expect(boards.map((b) => b.id)).toEqual(["b1"]);
+    expect((global.fetch as any).mock.calls.length).toBe(1);
+  });
+
+  it("stops when the server keeps returning the same page", async () => {
+    (global.fetch as any).mockResolvedValue(page(["b1", "b2"]));
+
+    const client = new DagloApiClient();
+    const boards = await collectBoards(client, { limit: 2 });
+
+    expect(boards.map((b) => b.id)).toEqual(["b1", "b2"]);
+    expect((global.fetch as any).mock.calls.length).toBe(2);
+  });
+});
+
 describe("getBoardInfo", () => {
   beforeEach(() => vi.clearAllMocks());
 
@@ -241,6 +309,174 @@ describe("updateBoardName", () => {
       updateBoardName(client, { boardId: "b1", name: "Name" })
     ).rejects.toThrow("Failed to update board name: Not Found");
   });
+
+  it("throws DagloNotFoundError carrying status and body on 404", async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      url: "https://backend.daglo.ai/boards/missing",
+      text: async () => JSON.stringify({ message: "no board" }),
+    });
+
+    const client = new DagloApiClient();
+    const error = await updateBoardName(client, {
+      boardId: "missing",
+      name: "Name",
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DagloNotFoundError);
+    expect(error).toMatchObject({
+      status: 404,
+      path: "/boards/missing",
+      body: { message: "no board" },
+    });
+  });
+});
+
+describe("moveBoard / setBoardStarred", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const ok = { ok: true, text: async () => "{}" };
+
+  it("PATCHes the folder ID onto the board", async () => {
+    (global.fetch as any).mockResolvedValue(ok);
+
+    const client = new DagloApiClient();
+    await moveBoard(client, { boardId: "b1", folderId: "f2" });
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toContain("/boards/b1");
+    expect(init.method).toBe("PATCH");
+    expect(JSON.parse(init.body)).toEqual({ folderId: "f2" });
+  });
+
+  it("PATCHes the starred flag onto the board", async () => {
+    (global.fetch as any).mockResolvedValue(ok);
+
+    const client = new DagloApiClient();
+    await setBoardStarred(client, { boardId: "b1", isStarred: false });
+
+    const [, init] = (global.fetch as any).mock.calls[0];
+    expect(JSON.parse(init.body)).toEqual({ isStarred: false });
+  });
+
+  it("throws on non-ok response", async () => {
+    (global.fetch as any).mockResolvedValue({ ok: false, statusText: "Forbidden" });
+
+    const client = new DagloApiClient();
+    await expect(
+      setBoardStarred(client, { boardId: "b1", isStarred: true })
+    ).rejects.toThrow("Failed to star board: Forbidden");
+  });
+});
+
+describe("board lifecycle", () => {
+  let tmpHome: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpHome = fs.mkdtempSync(path.join(os.tmpdir(), "daglo-lifecycle-"));
+    process.env.XDG_CONFIG_HOME = tmpHome;
+  });
+
+  afterEach(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    fs.rmSync(tmpHome, { recursive: true, force: true });
+  });
+
+  const ok = { ok: true, status: 200, text: async () => "" };
+  const board = (detail: object) => ({
+    ok: true,
+    status: 200,
+    text: async () => JSON.stringify(detail),
+  });
+  const trashed = board({ id: "b1", deletedAt: "2024-05-01T00:00:00Z" });
+
+  it("deletes, restores and purges via the board endpoints", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(ok)
+      .mockResolvedValueOnce(ok)
+      .mockResolvedValueOnce(trashed)
+      .mockResolvedValueOnce(ok);
+    const client = new DagloApiClient();
+
+    await deleteBoard(client, { boardId: "b1" });
+    await restoreBoard(client, { boardId: "b1" });
+    await purgeBoard(client, { boardId: "b1" });
+
+    const calls = (global.fetch as any).mock.calls.map(
+      ([url, init]: [string, RequestInit]) => `${init.method ?? "GET"} ${new URL(url).pathname}`
+    );
+    expect(calls).toEqual([
+      "DELETE /boards/b1",
+      "POST /boards/b1/restore",
+      "GET /boards/b1",
+      "DELETE /boards/b1/permanent",
+    ]);
+  });
+
+  it("refuses to purge a board that is not in the trash", async () => {
+    (global.fetch as any).mockResolvedValueOnce(board({ id: "b1" }));
+    const client = new DagloApiClient();
+
+    await expect(purgeBoard(client, { boardId: "b1" })).rejects.toThrow(
+      "Board b1 is not in the trash; delete it before purging."
+    );
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(readAuditLog()).toEqual([
+      expect.objectContaining({ action: "purge", boardId: "b1", success: false }),
+    ]);
+  });
+
+  it("records successes and failures in the audit log", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(ok)
+      .mockResolvedValueOnce(trashed)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: "Not Found",
+        text: async () => "",
+      });
+    const client = new DagloApiClient();
+
+    await deleteBoard(client, { boardId: "b1" });
+    await expect(purgeBoard(client, { boardId: "b2" })).rejects.toThrow(
+      "Failed to purge board: Not Found"
+    );
+
+    expect(readAuditLog()).toEqual([
+      expect.objectContaining({ action: "delete", boardId: "b1", success: true }),
+      expect.objectContaining({
+        action: "purge",
+        boardId: "b2",
+        success: false,
+        error: "Failed to purge board: Not Found",
+      }),
+    ]);
+  });
+
+  it("lists only deleted boards from the trash", async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        items: [
+          { id: "live", name: "Live" },
+          { id: "gone", name: "Gone", deleteTime: "2026-01-01T00:00:00Z" },
+          { id: "newer", name: "Newer", deleteTime: "2026-02-01T00:00:00Z" },
+        ],
+      }),
+    });
+
+    const client = new DagloApiClient();
+    const boards = await listTrashedBoards(client);
+
+    expect(boards.map((b) => b.id)).toEqual(["newer", "gone"]);
+    expect((global.fetch as any).mock.calls[0][0]).toContain("filter.withDeleted=true");
+    expect((global.fetch as any).mock.calls[0][0]).not.toContain("deleteTime");
+  });
 });
 
 describe("getLatestBoardContent", () => {
@@ -291,6 +527,54 @@ describe("getLatestBoardContent", () => {
       "No boards found to determine latest board."
     );
   });
+
+  it("normalizes v1 field names when picking the latest board", async () => {
+    const listPayload = {
+      boards: [
+        { id: "old", name: "Old", createTime: "2024-01-01T00:00:00Z" },
+        {
+          id: "new",
+          name: "New",
+          createTime: "2024-02-01T00:00:00Z",
+          updateTime: "2024-02-02T00:00:00Z",
+        },
+      ],
+    };
+
+    (global.fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => listPayload })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ id: "new", content: "c" }),
+      });
+
+    const client = new DagloApiClient();
+    const result = await getLatestBoardContent(client, {});
+
+    expect(result).toMatchObject({
+      id: "new",
+      createdAt: "2024-02-01T00:00:00Z",
+      updatedAt: "2024-02-02T00:00:00Z",
+    });
+  });
+
+  it("warns about an unexpected list shape instead of failing silently", async () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => undefined as any);
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ results: [{ id: "b1" }] }),
+    });
+
+    const client = new DagloApiClient();
+    await expect(getLatestBoardContent(client, {})).rejects.toThrow(
+      "No boards found to determine latest board."
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({ response: "board list" }),
+      "Unexpected board list response shape"
+    );
+    warn.mockRestore();
+  });
 });
 
 describe("exportBoardContent", () => {
@@ -367,4 +651,245 @@ describe("exportBoardContent", () => {
       fs.unlinkSync(tmpJsonFile);
     }
   });
+
+  it("exports punctuation-json sentences in seconds, one paragraph at a time", async () => {
+    const karaoke = (text: string, s: number, e: number) => ({ type: "karaoke", text, s, e });
+    const scriptPayload = {
+      content: JSON.stringify({
+        editorState: {
+          root: {
+            children: [
+              { children: [karaoke("안녕하세요.", 1000, 1800), karaoke(" 오늘은", 2000, 2600)] },
+              { children: [karaoke("Next", 61000, 61400), karaoke(" one!", 61400, 62000)] },
+            ],
+          },
+        },
+      }),
+    };
+    vi.mocked(fetch).mockReset();
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => scriptPayload });
+
+    const client = new DagloApiClient();
+    const result = await exportBoardContent(client, {
+      format: "punctuation-json",
+      boardId: "b3",
+      fileMetaId: "fm3",
+      outputPath: tmpFile,
+    });
+
+    expect(result).toMatchObject({ segmentCount: 3, contentSource: "file-meta" });
+    expect(JSON.parse(fs.readFileSync(tmpFile, "utf-8"))).toEqual([
+      { text: "안녕하세요.", startTime: 1, endTime: 1.8 },
+      { text: "오늘은", startTime: 2, endTime: 2.6 },
+      { text: "Next one!", startTime: 61, endTime: 62 },
+    ]);
+  });
+
+  it("exports subtitles from the file's script in milliseconds", async () => {
+    const karaoke = (text: string, s: number, e: number) => ({ type: "karaoke", text, s, e });
+    const scriptPayload = {
+      content: JSON.stringify({
+        editorState: {
+          root: {
+            children: [
+              {
+                children: [
+                  karaoke("안녕하세요.", 1000, 1800),
+                  karaoke(" Next", 61000, 61400),
+                  karaoke(" one!", 61400, 62000),
+                ],
+              },
+            ],
+          },
+        },
+      }),
+    };
+    vi.mocked(fetch).mockReset();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => scriptPayload,
+    });
+
+    const client = new DagloApiClient();
+    const result = await exportBoardContent(client, {
+      format: "vtt",
+      boardId: "b3",
+      fileMetaId: "fm3",
+      outputPath: tmpFile,
+      offset: -0.5,
+    });
+
+    expect(result).toMatchObject({ outputPath: tmpFile, cueCount: 2, contentSource: "file-meta" });
+    expect(fs.readFileSync(tmpFile, "utf-8")).toBe(
+      [
+        "WEBVTT",
+        "",
+        "00:00:00.500 --> 00:00:01.500",
+        "안녕하세요.",
+        "",
+        "00:01:00.500 --> 00:01:01.500",
+        "Next one!",
+        "",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("exports word timings grouped by paragraph and sentence", async () => {
+    const karaoke = (text: string, s: number, e: number) => ({ type: "karaoke", text, s, e });
+    const scriptPayload = {
+      content: JSON.stringify({
+        editorState: {
+          root: {
+            children: [
+              {
+                children: [
+                  karaoke("Hi", 0, 400),
+                  karaoke(" there.", 400, 900),
+                  karaoke(" Ok", 1000, 1300),
+                ],
+              },
+              { children: [] },
+              { children: [karaoke("Bye!", 5000, 5600)] },
+            ],
+          },
+        },
+      }),
+    };
+    vi.mocked(fetch).mockReset();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => scriptPayload,
+    });
+
+    const client = new DagloApiClient();
+    const result = await exportBoardContent(client, {
+      format: "words-json",
+      boardId: "b3",
+      fileMetaId: "fm3",
+      outputPath: tmpFile,
+    });
+
+    expect(result).toMatchObject({ paragraphCount: 2, wordCount: 4 });
+    const document = JSON.parse(fs.readFileSync(tmpFile, "utf-8"));
+    expect(document.version).toBe(1);
+    expect(document.paragraphs[0]).toMatchObject({
+      text: "Hi there. Ok",
+      startTime: 0,
+      endTime: 1.3,
+    });
+    expect(document.paragraphs[0].sentences.map((s: any) => s.text)).toEqual(["Hi there.", "Ok"]);
+    expect(document.paragraphs[1].sentences[0].words).toEqual([
+      { text: "Bye!", startTime: 5, endTime: 5.6 },
+    ]);
+  });
+});
+
+describe("downloadBoardMedia", () => {
+  const media = Buffer.from("0123456789");
+  const sha256 = "84d89877f0d4041efb6bf91a16f0248f2fd573e6af05c19f96bedb9f882f7882";
+  const boardPayload = {
+    id: "b1",
+    name: "Call: Q2",
+    fileUrl: "https://storage.example.com/rec/abc.m4a?X-Amz-Signature=1",
+  };
+  let tmpDir: string;
+
+  const mockMedia = (respond: (init?: RequestInit) => Response) =>
+    vi.mocked(fetch).mockImplementation(async (url: any, init?: RequestInit) =>
+      String(url).includes("/boards/")
+        ? new Response(JSON.stringify(boardPayload), { status: 200 })
+        : respond(init)
+    );
+
+  beforeEach(() => {
+    // Earlier suites can leave unconsumed one-off responses queued.
+    vi.mocked(fetch).mockReset();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "daglo-media-"));
+  });
+  afterEach(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+  it("downloads the media without the API token and reports its checksum", async () => {
+    mockMedia(() => new Response(media, { status: 200 }));
+
+    const client = new DagloApiClient();
+    client.setTokens("token");
+    const result = await downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir });
+
+    expect(result).toMatchObject({
+      path: path.join(tmpDir, "Call- Q2.m4a"),
+      bytes: 10,
+      sha256,
+      resumedFrom: 0,
+      skipped: false,
+    });
+    expect(fs.readFileSync(result.path, "utf-8")).toBe("0123456789");
+    const [, init] = vi.mocked(fetch).mock.calls[1];
+    expect((init?.headers as Record<string, string>)?.Authorization).toBeUndefined();
+  });
+
+  it("resumes a partial download with a range request", async () => {
+    fs.writeFileSync(path.join(tmpDir, "Call- Q2.m4a.part"), media.subarray(0, 4));
+    mockMedia((init) => {
+      expect((init?.headers as Record<string, string>).Range).toBe("bytes=4-");
+      return new Response(media.subarray(4), { status: 206 });
+    });
+
+    const client = new DagloApiClient();
+    const result = await downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir, sha256 });
+
+    expect(result).toMatchObject({ resumedFrom: 4, bytes: 10, sha256 });
+    expect(fs.existsSync(path.join(tmpDir, "Call- Q2.m4a.part"))).toBe(false);
+  });
+
+  it("skips a file that is already downloaded", async () => {
+    fs.writeFileSync(path.join(tmpDir, "Call- Q2.m4a"), media);
+    mockMedia(() => {
+      throw new Error("should not download");
+    });
+
+    const client = new DagloApiClient();
+    const result = await downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir });
+    expect(result).toMatchObject({ skipped: true, sha256 });
+  });
+
+  it("skips a file named after its Content-Type when the URL has no extension", async () => {
+    boardPayload.fileUrl = "https://storage.example.com/rec/abc?X-Amz-Signature=1";
+    try {
+      let downloads = 0;
+      mockMedia(() => {
+        downloads++;
+        return new Response(media, { status: 200, headers: { "Content-Type": "audio/mpeg" } });
+      });
+
+      const client = new DagloApiClient();
+      const first = await downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir });
+      const second = await downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir });
+
+      expect(first).toMatchObject({ path: path.join(tmpDir, "Call- Q2.mp3"), skipped: false });
+      expect(second).toMatchObject({ path: first.path, skipped: true, sha256 });
+      expect(downloads).toBe(1);
+    } finally {
+      boardPayload.fileUrl = "https://storage.example.com/rec/abc.m4a?X-Amz-Signature=1";
+    }
+  });
+
+  it("rejects a download whose checksum does not match", async () => {
+    mockMedia(() => new Response(media, { status: 200 }));
+
+    const client = new DagloApiClient();
+    await expect(
+      downloadBoardMedia(client, { boardId: "b1", outputDir: tmpDir, sha256: "0".repeat(64) })
+    ).rejects.toThrow("Checksum mismatch");
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+  });
+
+  it("fails when the board has no media", async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(JSON.stringify({ id: "b2" })));
+
+    const client = new DagloApiClient();
+    await expect(downloadBoardMedia(client, { boardId: "b2", outputDir: tmpDir })).rejects.toThrow(
+      "Board b2 has no media file"
+    );
+  });
 });
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DagloApiClient } from "../api/client.js";
+import { getExporter, listExporters } from "../exporters/registry.js";
+import { exportBoards } from "./export.js";
+
+global.fetch = vi.fn() as any;
+let tmp: string;
+
+beforeEach(() => {
+  vi.mocked(fetch).mockReset();
+  tmp = mkdtempSync(join(tmpdir(), "export-"));
+});
+afterEach(() => rmSync(tmp, { recursive: true, force: true }));
+
+const boards: Record<string, object> = {
+  b1: { id: "b1", name: "Standup", createdAt: "2024-05-01T01:00:00Z" },
+  b2: { id: "b2", name: "Standup", createdAt: "2024-05-01T05:00:00Z" },
+};
+
+const mockBoards = () =>
+  vi.mocked(fetch).mockImplementation(async (url: any) => {
+    const { pathname } = new URL(String(url));
+    if (pathname.endsWith("/v2/boards")) {
+      return new Response(JSON.stringify({ items: Object.values(boards) }), { status: 200 });
+    }
+    const id = pathname.split("/").pop()!;
+    return id in boards
+      ? new Response(JSON.stringify(boards[id]), { status: 200 })
+      : new Response("", { status: 404, statusText: "Not Found" });
+  });
+
+describe("exporter registry", () => {
+  it("lists the built-in targets and rejects unknown ones", () => {
+    expect(listExporters().map((exporter) => exporter.target)).toEqual([
+      "obsidian",
+      "logseq",
+      "notion",
+      "markdown",
+    ]);
+    expect(() => getExporter("evernote")).toThrow(
+      'Unknown export target "evernote" (available: obsidian, logseq, notion, markdown)'
+    );
+  });
+});
+
+describe("exportBoards", () => {
+  it("exports through the selected target with collision-free names", async () => {
+    mockBoards();
+
+    const result = await exportBoards(new DagloApiClient(), {
+      target: "logseq",
+      boardIds: ["b2", "b1", "missing"],
+      outputDir: tmp,
+      timezone: "UTC",
+    });
+
+    expect(result).toMatchObject({
+      target: "logseq",
+      totalBoards: 3,
+      exportedCount: 2,
+      errorCount: 1,
+      errors: [{ boardId: "missing", error: "Failed to fetch board: Not Found" }],
+    });
+    expect(result.generatedFiles).toEqual([
+      join(tmp, "pages", "2024-05-01 Standup (b2).md"),
+      join(tmp, "pages", "2024-05-01 Standup.md"),
+    ]);
+    expect(readFileSync(result.generatedFiles[1], "utf-8")).toContain("board-id:: b1");
+  });
+
+  it("runs the exporter's finish step after the boards", async () => {
+    mockBoards();
+
+    const result = await exportBoards(new DagloApiClient(), {
+      target: "notion",
+      boardIds: ["b1"],
+      outputDir: tmp,
+    });
+
+    expect(result.generatedFiles.map((file) => file.slice(tmp.length + 1))).toEqual([
+      expect.stringMatching(/Standup\.md$/),
+      "Daglo.csv",
+    ]);
+    expect(existsSync(join(tmp, "Daglo.csv"))).toBe(true);
+  });
+
+  it("names boards from the listing and writes each before loading the next", async () => {
+    mockBoards();
+    const writtenBeforeLoad: Record<string, string[]> = {};
+    const respond = vi.mocked(fetch).getMockImplementation()!;
+    vi.mocked(fetch).mockImplementation(async (url: any, init?: any) => {
+      const { pathname } = new URL(String(url));
+      if (/\/boards\/b\d$/.test(pathname)) {
+        const pages = join(tmp, "pages");
+        writtenBeforeLoad[pathname.split("/").pop()!] = existsSync(pages)
+          ? readdirSync(pages)
+          : [];
+      }
+      return respond(url, init);
+    });
+
+    const result = await exportBoards(new DagloApiClient(), {
+      target: "logseq",
+      all: true,
+      outputDir: tmp,
+      timezone: "UTC",
+    });
+
+    expect(result).toMatchObject({ totalBoards: 2, exportedCount: 2, errorCount: 0 });
+    expect(writtenBeforeLoad).toEqual({ b1: [], b2: ["2024-05-01 Standup.md"] });
+    expect(vi.mocked(fetch).mock.calls.map(([url]) => new URL(String(url)).pathname)).toEqual([
+      expect.stringMatching(/\/v2\/boards$/),
+      expect.stringMatching(/\/boards\/b1$/),
+      expect.stringMatching(/\/boards\/b2$/),
+    ]);
+  });
+
+  it("renders obsidian notes with the templates from templateDir", async () => {
+    mockBoards();
+    const templateDir = join(tmp, "templates");
+    mkdirSync(templateDir);
+    writeFileSync(join(templateDir, "summary.md"), "## Summary of {{title}}\n");
+
+    const result = await exportBoards(new DagloApiClient(), {
+      target: "obsidian",
+      boardIds: ["b1"],
+      outputDir: join(tmp, "vault"),
+      templateDir,
+      timezone: "UTC",
+    });
+
+    expect(result.generatedFiles).toEqual([
+      join(tmp, "vault", "summary", "2024-05-01 Standup.md"),
+    ]);
+    expect(readFileSync(result.generatedFiles[0], "utf-8")).toContain(
+      "## Summary of Standup\n"
+    );
+  });
+
+  it("requires board IDs, a folder or all", async () => {
+    await expect(
+      exportBoards(new DagloApiClient(), { target: "markdown", outputDir: tmp })
+    ).rejects.toThrow("Pass board IDs, a folder ID or --all to choose the boards to export.");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,313 @@
+import { resolve } from "node:path";
+import { DagloApiClient } from "../api/client.js";
+import { toApiError } from "../api/errors.js";
+import { getExporter } from "../exporters/registry.js";
+import { ExportBoard } from "../exporters/types.js";
+import { logger } from "../logger.js";
+import { NormalizedBoard, Segment } from "../schemas/boards.js";
+import { ExportBoardsArgs } from "../schemas/export.js";
+import {
+  keywordsResponseSchema,
+  longSummaryResponseSchema,
+  segmentSummaryResponseSchema,
+  summaryResponseSchema,
+} from "../schemas/file-meta.js";
+import { parseBoardDetail } from "../utils/board.js";
+import {
+  decodeZlibBase64Content,
+  normalizeScriptContent,
+} from "../utils/content.js";
+import { buildUrl, parseResponseBody, validateResponse } from "../utils/http.js";
+import {
+  assertFilenamePattern,
+  assertTimeZone,
+  assignNoteBaseNames,
+  DEFAULT_FILENAME_PATTERN,
+} from "../utils/note-filename.js";
+import { getTranscriptText, parseTranscript, Transcript } from "../utils/transcript.js";
+import { collectBoards } from "./boards.js";
+import { lookupFolderPath } from "./folders.js";
+
+const fetchTranscript = async (
+  client: DagloApiClient,
+  fileMetaId: string | undefined,
+  board: Pick<NormalizedBoard, "content">
+): Promise<ExportBoard["transcript"]> => {
+  let content: string | undefined;
+  let transcript: Transcript = { timeUnit: "seconds", paragraphs: [] };
+
+  if (fileMetaId) {
+    const scriptUrl = buildUrl(
+      client.baseUrl,
+      `/file-meta/${fileMetaId}/script`,
+      { includeContent: "true" }
+    );
+    const scriptResponse = await client.request(scriptUrl);
+
+    if (scriptResponse.ok) {
+      const scriptData = (await parseResponseBody(scriptResponse)) as
+        | { content?: string; script?: string; text?: string; item?: string }
+        | string;
+
+      let rawContent: string | undefined;
+      if (typeof scriptData === "string") {
+        rawContent = scriptData;
+      } else {
+        rawContent =
+          scriptData.content ??
+          scriptData.script ??
+          scriptData.text ??
+          scriptData.item;
+      }
+
+      if (rawContent) {
+        const normalizedContent = normalizeScriptContent(rawContent);
+        transcript = parseTranscript(normalizedContent);
+        content = getTranscriptText(transcript);
+
+        if (!content && normalizedContent) {
+          content = normalizedContent;
+        }
+      }
+    }
+  }
+
+  if (!content && board.content) {
+    content = decodeZlibBase64Content(board.content);
+  }
+
+  return { ...transcript, content };
+};
+
+// Fetches one file-meta resource; a failed or malformed response yields undefined.
+const fetchFileMeta = async <T>(
+  client: DagloApiClient,
+  path: string,
+  schema: Parameters<typeof validateResponse<T>>[0],
+  label: string
+): Promise<T | undefined> => {
+  const response = await client.request(buildUrl(client.baseUrl, path));
+  if (!response.ok) return undefined;
+  return validateResponse(schema, await parseResponseBody(response), label) ?? undefined;
+};
+
+export interface LoadBoardOptions {
+  /** File to read the script and file-meta resources from (default: the board's). */
+  fileMetaId?: string;
+  includeSummary?: boolean;
+  includeKeywords?: boolean;
+  includeAiSummary?: boolean;
+  /** Fetch the file's segment summaries; without them the board's segments are used. */
+  includeSegments?: boolean;
+  folderPath?: string;
+}
+
+/** Fetches a board with its transcript and, optionally, its file-meta summaries. */
+export const loadExportBoard = async (
+  client: DagloApiClient,
+  boardId: string,
+  options: LoadBoardOptions = {}
+): Promise<ExportBoard & { raw: NormalizedBoard }> => {
+  const response = await client.request(buildUrl(client.baseUrl, `/boards/${boardId}`));
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to fetch board");
+  }
+
+  const board = parseBoardDetail(await parseResponseBody(response));
+  const fileMetaId = options.fileMetaId || board.fileMetaId;
+  const transcript = await fetchTranscript(client, fileMetaId, board);
+
+  let summary = board.summary;
+  let keywords = board.keywords;
+  let aiSummary = board.aiSummary;
+  let segments: Segment[] = [];
+
+  if (fileMetaId) {
+    const base = `/file-meta/${fileMetaId}`;
+    if (options.includeSummary) {
+      summary =
+        (await fetchFileMeta(client, `${base}/summary`, summaryResponseSchema, "summary")) ||
+        summary;
+    }
+    if (options.includeKeywords) {
+      keywords =
+        (await fetchFileMeta(client, `${base}/keywords`, keywordsResponseSchema, "keywords")) ||
+        keywords;
+    }
+    if (options.includeAiSummary) {
+      aiSummary =
+        (await fetchFileMeta(
+          client,
+          `${base}/long-summary`,
+          longSummaryResponseSchema,
+          "long summary"
+        )) || aiSummary;
+    }
+    if (options.includeSegments) {
+      segments =
+        (await fetchFileMeta(
+          client,
+          `${base}/segment-summary`,
+          segmentSummaryResponseSchema,
+          "segment summary"
+        )) ?? [];
+    }
+  }
+
+  return {
+    id: board.id,
+    name: board.name,
+    createdAt: board.createdAt || new Date().toISOString(),
+    updatedAt: board.updatedAt,
+    type: board.type,
+    duration: board.duration,
+    folderId: board.folderId,
+    folderPath: options.folderPath,
+    sourceUrl: board.sourceUrl,
+    shareUrl: board.shareUrl,
+    fileUrl: board.fileUrl,
+    summary,
+    aiSummary,
+    keywords,
+    segments: segments.length ? segments : board.segments,
+    transcript,
+    raw: board,
+  };
+};
+
+const BOARD_PAGE_SIZE = 50;
+
+export interface ExportBoardsResult {
+  success: boolean;
+  target: string;
+  totalBoards: number;
+  exportedCount: number;
+  errorCount: number;
+  errors: Array<{ boardId: string; error: string }>;
+  generatedFiles: string[];
+}
+
+type BoardListing = Pick<NormalizedBoard, "id" | "name" | "createdAt" | "folderId">;
+
+// Board metadata for naming, without the transcript or file-meta resources.
+const fetchBoardListing = async (
+  client: DagloApiClient,
+  boardId: string
+): Promise<BoardListing> => {
+  const response = await client.request(buildUrl(client.baseUrl, `/boards/${boardId}`));
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to fetch board");
+  }
+  return parseBoardDetail(await parseResponseBody(response));
+};
+
+/**
+ * Exports boards through the exporter registered for `args.target`: the
+ * given board IDs, every board of `args.folderId`, or with `args.all` every
+ * board of the account.
+ */
+export const exportBoards = async (
+  client: DagloApiClient,
+  args: ExportBoardsArgs
+): Promise<ExportBoardsResult> => {
+  if (!args.boardIds?.length && !args.folderId && !args.all) {
+    throw new Error("Pass board IDs, a folder ID or --all to choose the boards to export.");
+  }
+  const exporter = getExporter(args.target).create({ templateDir: args.templateDir });
+  const outputDir = resolve(args.outputDir || "./export");
+  const naming = {
+    pattern: assertFilenamePattern(args.filenamePattern ?? DEFAULT_FILENAME_PATTERN),
+    timeZone: args.timezone ? assertTimeZone(args.timezone) : undefined,
+  };
+  const result: ExportBoardsResult = {
+    success: true,
+    target: args.target,
+    totalBoards: 0,
+    exportedCount: 0,
+    errorCount: 0,
+    errors: [],
+    generatedFiles: [],
+  };
+
+  const recordError = (boardId: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ boardId, target: args.target, error: message }, "Failed to export board");
+    result.errors.push({ boardId, error: message });
+    result.errorCount++;
+  };
+
+  // Names are assigned from the metadata up front so they are collision-free;
+  // each board is then loaded and written before the next one is fetched.
+  let listings: BoardListing[] = [];
+  if (args.boardIds?.length) {
+    const boardIds = args.boardIds.slice(0, args.limit);
+    result.totalBoards = boardIds.length;
+    for (const boardId of boardIds) {
+      try {
+        listings.push(await fetchBoardListing(client, boardId));
+      } catch (error) {
+        recordError(boardId, error);
+      }
+    }
+  } else {
+    listings = await collectBoards(
+      client,
+      { folderId: args.folderId, limit: BOARD_PAGE_SIZE },
+      args.limit
+    );
+    result.totalBoards = listings.length;
+  }
+
+  const folderPaths = new Map<string, Promise<string | undefined>>();
+  const lookupFolder = (folderId: string | undefined) => {
+    if (!folderId) return undefined;
+    if (!folderPaths.has(folderId)) {
+      folderPaths.set(folderId, lookupFolderPath(client, folderId));
+    }
+    return folderPaths.get(folderId);
+  };
+
+  const named: Array<BoardListing & { folderPath?: string }> = [];
+  for (const listing of listings) {
+    named.push({ ...listing, folderPath: await lookupFolder(listing.folderId) });
+  }
+  const names = assignNoteBaseNames(
+    named.map((board) => ({
+      id: board.id,
+      name: board.name,
+      createdAt: board.createdAt,
+      folder: board.folderPath?.split("/").pop(),
+    })),
+    naming
+  );
+
+  for (const listing of named) {
+    try {
+      const board: ExportBoard = await loadExportBoard(client, listing.id, {
+        includeSummary: true,
+        includeKeywords: true,
+        includeAiSummary: true,
+        includeSegments: true,
+        folderPath: listing.folderPath,
+      });
+      if (board.folderId && board.folderId !== listing.folderId) {
+        board.folderPath = await lookupFolder(board.folderId);
+      }
+      result.generatedFiles.push(
+        ...exporter.exportBoard(board, {
+          outputDir,
+          baseName: names.get(listing.id)!,
+          timeZone: naming.timeZone,
+        })
+      );
+      result.exportedCount++;
+    } catch (error) {
+      recordError(listing.id, error);
+    }
+  }
+
+  if (exporter.finish) {
+    result.generatedFiles.push(...exporter.finish({ outputDir, timeZone: naming.timeZone }));
+  }
+  return result;
+};
@@ -1,4 +1,5 @@
 import { DagloApiClient } from "../api/client.js";
+import { toApiError } from "../api/errors.js";
 import {
   GetFileMetaArgs,
   GetKeywordsArgs,
@@ -11,7 +12,7 @@ export const getFileMeta = async (
 ): Promise<unknown> => {
   const response = await client.request(`/file-meta/${args.fileMetaId}`);
   if (!response.ok) {
-    throw new Error(`Failed to fetch file meta: ${response.statusText}`);
+    throw await toApiError(response, "Failed to fetch file meta");
   }
   return (await response.json()) as unknown;
 };
@@ -33,7 +34,7 @@ export const getKeywords = async (
 
   const response = await client.request(path, init);
   if (!response.ok) {
-    throw new Error(`Failed to fetch keywords: ${response.statusText}`);
+    throw await toApiError(response, "Failed to fetch keywords");
   }
   return await parseResponseBody(response);
 };
@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { DagloApiClient } from "../api/client.js";
-import { getFolders } from "./folders.js";
+import {
+  createFolder,
+  deleteFolder,
+  getFolders,
+  getFolderTree,
+  moveFolder,
+  renameFolder,
+} from "./folders.js";
 
 global.fetch = vi.fn() as any;
 
@@ -45,3 +52,157 @@ describe("getFolders", () => {
     );
   });
 });
+
+describe("folder mutations", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  const ok = (payload: unknown = {}) => ({
+    ok: true,
+    text: async () => JSON.stringify(payload),
+  });
+
+  const lastCall = () => {
+    const [url, init] = (global.fetch as any).mock.calls.at(-1);
+    return {
+      method: init.method,
+      path: new URL(url).pathname,
+      body: init.body ? JSON.parse(init.body) : undefined,
+    };
+  };
+
+  const folders = [
+    { id: "root", name: "Root", isRoot: true },
+    { id: "f2", name: "Work", parentId: "root" },
+    { id: "f9", name: "Calls", parentId: "root" },
+    { id: "f10", name: "Weekly", parentId: "f9" },
+    { id: "f11", name: "Standups", parentId: "f10" },
+  ];
+
+  it("creates, renames, moves and deletes folders", async () => {
+    (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) =>
+      init.method ? ok({ id: "f9" }) : { ok: true, json: async () => folders }
+    );
+    const client = new DagloApiClient();
+
+    expect(await createFolder(client, { name: "Calls", parentId: "f1" })).toEqual({
+      id: "f9",
+    });
+    expect(lastCall()).toEqual({
+      method: "POST",
+      path: "/folders",
+      body: { name: "Calls", parentId: "f1" },
+    });
+
+    await renameFolder(client, { folderId: "f9", name: "Meetings" });
+    expect(lastCall()).toEqual({
+      method: "PATCH",
+      path: "/folders/f9",
+      body: { name: "Meetings" },
+    });
+
+    await moveFolder(client, { folderId: "f9", parentId: "f2" });
+    expect(lastCall()).toEqual({
+      method: "PATCH",
+      path: "/folders/f9",
+      body: { parentId: "f2" },
+    });
+
+    await deleteFolder(client, { folderId: "f9" });
+    expect(lastCall()).toEqual({
+      method: "DELETE",
+      path: "/folders/f9",
+      body: undefined,
+    });
+  });
+
+  it("refuses to move a folder into itself, its subfolders or an unknown folder", async () => {
+    (global.fetch as any).mockResolvedValue({ ok: true, json: async () => folders });
+    const client = new DagloApiClient();
+
+    await expect(moveFolder(client, { folderId: "f9", parentId: "f9" })).rejects.toThrow(
+      "Cannot move folder f9 into itself."
+    );
+    await expect(moveFolder(client, { folderId: "f9", parentId: "f11" })).rejects.toThrow(
+      "Cannot move folder f9 into f11, one of its own subfolders."
+    );
+    await expect(moveFolder(client, { folderId: "nope", parentId: "f2" })).rejects.toThrow(
+      "Folder nope not found"
+    );
+    await expect(moveFolder(client, { folderId: "f9", parentId: "nope" })).rejects.toThrow(
+      "Target folder nope not found"
+    );
+    const methods = (global.fetch as any).mock.calls.map(
+      ([, init]: [string, RequestInit]) => init.method
+    );
+    expect(methods).not.toContain("PATCH");
+  });
+
+  it("throws on non-ok response", async () => {
+    (global.fetch as any).mockResolvedValue({ ok: false, statusText: "Conflict" });
+
+    const client = new DagloApiClient();
+    await expect(createFolder(client, { name: "Dup" })).rejects.toThrow(
+      "Failed to create folder: Conflict"
+    );
+  });
+});
+
+describe("getFolderTree", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("uses board counts from the folder payload when present", async () => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        { id: "root", name: "", isRoot: true, boardCount: 1 },
+        { id: "f1", name: "Work", parentId: "root", boardCount: 4 },
+      ],
+    });
+
+    const client = new DagloApiClient();
+    const tree = await getFolderTree(client);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(tree).toEqual([
+      {
+        id: "root",
+        name: "",
+        isRoot: true,
+        boardCount: 1,
+        children: [
+          { id: "f1", name: "Work", isRoot: false, boardCount: 4, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it("tallies boards per folder when counts are missing", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { id: "f1", name: "Work" },
+          { id: "f2", name: "Home" },
+        ],
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            { id: "b1", folderId: "f1" },
+            { id: "b2", folderId: "f1" },
+            { id: "b3" },
+          ],
+        }),
+      });
+
+    const client = new DagloApiClient();
+    const tree = await getFolderTree(client);
+
+    expect(tree.map((node) => [node.id, node.boardCount])).toEqual([
+      ["f1", 2],
+      ["f2", 0],
+    ]);
+    expect((global.fetch as any).mock.calls[1][0]).toContain("/v2/boards");
+  });
+});
@@ -1,5 +1,22 @@
 import { DagloApiClient } from "../api/client.js";
-import { GetFoldersArgs } from "../schemas/folders.js";
+import { toApiError } from "../api/errors.js";
+import {
+  CreateFolderArgs,
+  DeleteFolderArgs,
+  GetFoldersArgs,
+  MoveFolderArgs,
+  RenameFolderArgs,
+} from "../schemas/folders.js";
+import {
+  buildFolderTree,
+  findFolderNode,
+  FolderTreeNode,
+  getFolderPath,
+  parseFolderList,
+} from "../utils/folder.js";
+import { parseResponseBody } from "../utils/http.js";
+import { logger } from "../logger.js";
+import { collectBoards } from "./boards.js";
 
 export const getFolders = async (
   client: DagloApiClient,
@@ -14,8 +31,124 @@ export const getFolders = async (
 
   const response = await client.request(`/folders${qs ? `?${qs}` : ""}`);
   if (!response.ok) {
-    throw new Error(`Failed to fetch folders: ${response.statusText}`);
+    throw await toApiError(response, "Failed to fetch folders");
   }
 
   return (await response.json()) as unknown;
 };
+
+/** Resolves a folder ID to its path, e.g. `Work/Calls`; undefined when it cannot. */
+export const lookupFolderPath = async (
+  client: DagloApiClient,
+  folderId: string | undefined
+): Promise<string | undefined> => {
+  if (!folderId) return undefined;
+  try {
+    const tree = buildFolderTree(
+      parseFolderList(await getFolders(client, { includeRoot: true }))
+    );
+    return getFolderPath(tree, folderId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn({ folderId, error: message }, "Could not resolve folder path");
+    return undefined;
+  }
+};
+
+export const createFolder = async (
+  client: DagloApiClient,
+  args: CreateFolderArgs
+): Promise<unknown> => {
+  const response = await client.request("/folders", {
+    method: "POST",
+    body: JSON.stringify({ name: args.name, parentId: args.parentId }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to create folder");
+  }
+
+  return await parseResponseBody(response);
+};
+
+const patchFolder = async (
+  client: DagloApiClient,
+  folderId: string,
+  body: Record<string, unknown>,
+  errorMessage: string
+): Promise<unknown> => {
+  const response = await client.request(`/folders/${folderId}`, {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, errorMessage);
+  }
+
+  return await parseResponseBody(response);
+};
+
+export const renameFolder = async (
+  client: DagloApiClient,
+  args: RenameFolderArgs
+): Promise<unknown> =>
+  patchFolder(client, args.folderId, { name: args.name }, "Failed to rename folder");
+
+export const moveFolder = async (
+  client: DagloApiClient,
+  args: MoveFolderArgs
+): Promise<unknown> => {
+  if (args.parentId === args.folderId) {
+    throw new Error(`Cannot move folder ${args.folderId} into itself.`);
+  }
+  const tree = buildFolderTree(parseFolderList(await getFolders(client, { includeRoot: true })));
+  const folder = findFolderNode(tree, args.folderId);
+  if (!folder) throw new Error(`Folder ${args.folderId} not found`);
+  if (!findFolderNode(tree, args.parentId)) {
+    throw new Error(`Target folder ${args.parentId} not found`);
+  }
+  if (findFolderNode(folder.children, args.parentId)) {
+    throw new Error(
+      `Cannot move folder ${args.folderId} into ${args.parentId}, one of its own subfolders.`
+    );
+  }
+
+  return patchFolder(client, args.folderId, { parentId: args.parentId }, "Failed to move folder");
+};
+
+export const deleteFolder = async (
+  client: DagloApiClient,
+  args: DeleteFolderArgs
+): Promise<unknown> => {
+  const response = await client.request(`/folders/${args.folderId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to delete folder");
+  }
+
+  return await parseResponseBody(response);
+};
+
+/**
+ * Builds the folder hierarchy. Board counts come from the folder payload when
+ * the API provides them; otherwise every board is listed once and tallied.
+ */
+export const getFolderTree = async (
+  client: DagloApiClient
+): Promise<FolderTreeNode[]> => {
+  const folders = parseFolderList(await getFolders(client, { includeRoot: true }));
+
+  let boardCounts: Map<string, number> | undefined;
+  if (folders.some((folder) => folder.boardCount === undefined)) {
+    boardCounts = new Map();
+    for (const board of await collectBoards(client, {})) {
+      if (!board.folderId) continue;
+      boardCounts.set(board.folderId, (boardCounts.get(board.folderId) ?? 0) + 1);
+    }
+  }
+
+  return buildFolderTree(folders, boardCounts);
+};
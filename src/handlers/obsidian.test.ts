@@ -1,11 +1,19 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { mkdtempSync, existsSync, rmSync } from "node:fs";
+import {
+  mkdtempSync,
+  mkdirSync,
+  existsSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { DagloApiClient } from "../api/client.js";
 import {
   batchExportFolder,
   exportToObsidian,
+  syncObsidianVault,
 } from "./obsidian.js";
 
 global.fetch = vi.fn() as any;
@@ -100,6 +108,345 @@ describe("exportToObsidian", () => {
     expect(existsSync(join(tmp, "summary"))).toBe(true);
   });
 
+  it("maps v1 board fields and keyword objects into the note", async () => {
+    const boardPayload = {
+      id: "board-3",
+      name: "Legacy Board",
+      createTime: "2024-06-01T09:00:00Z",
+      keywords: [{ keyword: "alpha" }, "beta"],
+      summary: "Legacy summary",
+    };
+
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      text: async () => JSON.stringify(boardPayload),
+    } as any);
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "board-3",
+      outputDir: tmp,
+      outputType: "summary",
+      includeContent: true,
+      includeSummary: true,
+      includeKeywords: true,
+      includeAiSummary: true,
+    })) as { generatedFiles: string[] };
+
+    const note = readFileSync(result.generatedFiles[0], "utf-8");
+    expect(result.generatedFiles[0]).toContain("2024-06-01 Legacy Board.md");
+    expect(note).toContain("keywords:\n  - alpha\n  - beta\n");
+    expect(note).toContain("#alpha #beta");
+  });
+
+  it("writes quoted frontmatter and Dataview properties", async () => {
+    const board = {
+      id: "b1",
+      name: 'Q&A: "Roadmap" #2',
+      createdAt: "2024-05-01T12:00:00Z",
+      type: "YOUTUBE",
+      duration: 3723,
+      folderId: "f2",
+      youtubeUrl: "https://youtu.be/abc",
+      shareUrl: "https://daglo.ai/s/xyz",
+      keywords: ["a, b", "c: d"],
+      segments: [
+        { startTime: 0, endTime: 1, text: "hi", speaker: "A" },
+        { startTime: 1, endTime: 2, text: "yo", speaker: "B" },
+        { startTime: 2, endTime: 3, text: "ok", speaker: "A" },
+      ],
+    };
+    const folders = [
+      { id: "root", name: "", isRoot: true },
+      { id: "f1", name: "Work", parentId: "root" },
+      { id: "f2", name: "Calls", parentId: "f1" },
+    ];
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const payload = new URL(String(url)).pathname === "/folders" ? folders : board;
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "b1",
+      outputDir: tmp,
+      outputType: "summary",
+      includeContent: true,
+      includeSummary: false,
+      includeKeywords: false,
+      includeAiSummary: false,
+    })) as { generatedFiles: string[] };
+
+    const note = readFileSync(result.generatedFiles[0], "utf-8");
+    const frontmatter = note.split("---")[1];
+    expect(frontmatter).toContain(`title: 'Q&A: "Roadmap" #2'`);
+    expect(frontmatter).toContain('  - a, b\n  - "c: d"\n');
+    expect(frontmatter).toContain("duration: 3723\n");
+    expect(frontmatter).toContain("speakers:\n  - A\n  - B\n");
+    expect(frontmatter).toContain("folder: Work/Calls\n");
+    expect(frontmatter).toContain("board_type: YOUTUBE\n");
+    expect(frontmatter).toContain("source_url: https://youtu.be/abc\n");
+    expect(frontmatter).toContain("share_url: https://daglo.ai/s/xyz\n");
+  });
+
+  it("renders notes with templates from --template-dir and config tags", async () => {
+    const configHome = mkdtempSync(join(tmpdir(), "obs-config-"));
+    process.env.XDG_CONFIG_HOME = configHome;
+    mkdirSync(join(configHome, "daglo"), { recursive: true });
+    writeFileSync(
+      join(configHome, "daglo", "obsidian.json"),
+      JSON.stringify({ tags: ["meeting"] })
+    );
+    const templateDir = join(tmp, "templates");
+    mkdirSync(templateDir);
+    writeFileSync(
+      join(templateDir, "summary.md"),
+      "## Summary of {{title}}\n{{#each keywords}}\n* {{this}}\n{{/each}}\n"
+    );
+
+    const board = {
+      id: "b1",
+      name: "Sync",
+      createdAt: "2024-05-01T12:00:00Z",
+      keywords: ["alpha", "beta"],
+    };
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => board,
+      text: async () => JSON.stringify(board),
+    } as any);
+
+    try {
+      const client = new DagloApiClient();
+      const result = (await exportToObsidian(client, {
+        boardId: "b1",
+        outputDir: tmp,
+        outputType: "summary",
+        templateDir,
+        includeContent: true,
+        includeSummary: false,
+        includeKeywords: false,
+        includeAiSummary: false,
+      })) as { generatedFiles: string[] };
+
+      const note = readFileSync(result.generatedFiles[0], "utf-8");
+      expect(note).toContain("tags:\n  - meeting\n");
+      expect(note).toContain("## Summary of Sync\n* alpha\n* beta\n");
+      expect(note).not.toContain("요약");
+    } finally {
+      delete process.env.XDG_CONFIG_HOME;
+      rmSync(configHome, { recursive: true, force: true });
+    }
+  });
+
+  it("links timestamps to the YouTube source in both notes", async () => {
+    const boardPayload = {
+      id: "board-yt",
+      name: "Talk",
+      createdAt: "2024-03-15T10:00:00Z",
+      fileMetaId: "fm-yt",
+      duration: 120,
+      youtubeUrl: "https://youtu.be/abc123",
+    };
+    const karaoke = (text: string, s: number, e: number) => ({ type: "karaoke", text, s, e });
+    const scriptPayload = {
+      content: JSON.stringify({
+        editorState: {
+          root: {
+            children: [
+              { children: [karaoke("Hello there.", 5, 7), karaoke(" Next one.", 65.4, 68)] },
+            ],
+          },
+        },
+      }),
+    };
+    const segmentsPayload = { segments: [{ startTime: 75, endTime: 80, text: "Intro" }] };
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const href = String(url);
+      const payload = href.includes("/script")
+        ? scriptPayload
+        : href.includes("/segment-summary")
+          ? segmentsPayload
+          : boardPayload;
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+
+    const client = new DagloApiClient();
+    await exportToObsidian(client, {
+      boardId: "board-yt",
+      outputDir: tmp,
+      outputType: "both",
+      includeContent: true,
+      includeSummary: false,
+      includeKeywords: false,
+      includeAiSummary: false,
+    });
+
+    const summary = readFileSync(join(tmp, "summary", "2024-03-15 Talk.md"), "utf-8");
+    expect(summary).toContain(
+      "- **[1:15](https://www.youtube.com/watch?v=abc123&t=75s)** Intro"
+    );
+    const original = readFileSync(join(tmp, "original", "2024-03-15 Talk.md"), "utf-8");
+    expect(original).toContain(
+      "[0:05](https://www.youtube.com/watch?v=abc123&t=5s) Hello there. Next one."
+    );
+  });
+
+  it("downloads media into the vault's attachment folder and embeds it", async () => {
+    mkdirSync(join(tmp, ".obsidian"), { recursive: true });
+    writeFileSync(
+      join(tmp, ".obsidian", "app.json"),
+      JSON.stringify({ attachmentFolderPath: "Files/Audio" })
+    );
+    const boardPayload = {
+      id: "board-media",
+      name: "Call",
+      createdAt: "2024-03-15T10:00:00Z",
+      fileUrl: "https://storage.example.com/call.mp3",
+    };
+    vi.mocked(fetch).mockImplementation(async (url: any) =>
+      String(url).startsWith("https://storage.example.com")
+        ? new Response("audio", { status: 200 })
+        : new Response(JSON.stringify(boardPayload), { status: 200 })
+    );
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "board-media",
+      outputDir: tmp,
+      outputType: "summary",
+      withMedia: true,
+      includeContent: true,
+      includeSummary: true,
+      includeKeywords: true,
+      includeAiSummary: true,
+    })) as { generatedFiles: string[] };
+
+    const mediaPath = join(tmp, "Files", "Audio", "2024-03-15 Call.mp3");
+    expect(result.generatedFiles).toContain(mediaPath);
+    expect(readFileSync(mediaPath, "utf-8")).toBe("audio");
+    const note = readFileSync(join(tmp, "summary", "2024-03-15 Call.md"), "utf-8");
+    expect(note).toContain("![[2024-03-15 Call.mp3]]");
+  });
+
+  it("writes a canvas and embeds a mindmap of the segment summaries", async () => {
+    const boardPayload = {
+      id: "board-map",
+      name: "Planning",
+      createdAt: "2024-03-15T10:00:00Z",
+      keywords: ["roadmap"],
+      segments: [{ startTime: 0, endTime: 30, text: "Roadmap review" }],
+    };
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => boardPayload,
+      text: async () => JSON.stringify(boardPayload),
+    } as any);
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "board-map",
+      outputDir: tmp,
+      outputType: "summary",
+      canvas: true,
+      mindmap: true,
+      includeContent: true,
+      includeSummary: true,
+      includeKeywords: true,
+      includeAiSummary: true,
+    })) as { generatedFiles: string[] };
+
+    const canvasPath = join(tmp, "canvas", "2024-03-15 Planning.canvas");
+    expect(result.generatedFiles).toContain(canvasPath);
+    const canvas = JSON.parse(readFileSync(canvasPath, "utf-8"));
+    expect(canvas.nodes[0]).toMatchObject({ file: "summary/2024-03-15 Planning.md" });
+    expect(canvas.edges).toHaveLength(2);
+
+    const note = readFileSync(join(tmp, "summary", "2024-03-15 Planning.md"), "utf-8");
+    expect(note).toContain("## 마인드맵\n```mermaid\nmindmap\n  root((Planning))\n");
+  });
+
+  it("does not overwrite another board's note with the same name", async () => {
+    mkdirSync(join(tmp, "summary"), { recursive: true });
+    writeFileSync(
+      join(tmp, "summary", "2024-03-15 Test Board.md"),
+      "---\nboard_id: other-board\n---\nMine\n"
+    );
+    const boardPayload = { id: "board-1", name: "Test Board", createdAt: "2024-03-15T10:00:00Z" };
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => boardPayload,
+      text: async () => JSON.stringify(boardPayload),
+    } as any);
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "board-1",
+      outputDir: tmp,
+      outputType: "summary",
+      includeContent: true,
+      includeSummary: true,
+      includeKeywords: true,
+      includeAiSummary: true,
+    })) as { generatedFiles: string[] };
+
+    expect(result.generatedFiles).toEqual([
+      join(tmp, "summary", "2024-03-15 Test Board (board-1).md"),
+    ]);
+    expect(readFileSync(join(tmp, "summary", "2024-03-15 Test Board.md"), "utf-8")).toContain(
+      "Mine"
+    );
+  });
+
+  it("links the note from its daily note and adds it to the vault's MOCs", async () => {
+    const board = {
+      id: "b1",
+      name: "Plan",
+      createdAt: "2024-05-01T09:00:00Z",
+      keywords: ["Roadmap"],
+    };
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => board,
+      text: async () => JSON.stringify(board),
+    } as any);
+    mkdirSync(join(tmp, "summary"), { recursive: true });
+    writeFileSync(
+      join(tmp, "summary", "Kickoff.md"),
+      "---\nsource: daglo\nboard_id: b0\ntitle: Kickoff\ndate: 2024-04-01\nkeywords:\n  - Roadmap\n---\n"
+    );
+
+    const client = new DagloApiClient();
+    const result = (await exportToObsidian(client, {
+      boardId: "b1",
+      outputDir: tmp,
+      outputType: "summary",
+      timezone: "UTC",
+      dailyNotes: true,
+      moc: true,
+      includeContent: true,
+      includeSummary: false,
+      includeKeywords: false,
+      includeAiSummary: false,
+    })) as { generatedFiles: string[] };
+
+    expect(result.generatedFiles).toContain(join(tmp, "2024-05-01.md"));
+    expect(readFileSync(join(tmp, "2024-05-01.md"), "utf-8")).toContain(
+      "- [[summary/2024-05-01 Plan|Plan]]"
+    );
+    const keywordMoc = readFileSync(join(tmp, "MOC", "Keywords", "Roadmap.md"), "utf-8");
+    expect(keywordMoc).toContain("[[summary/Kickoff|Kickoff]]");
+    expect(keywordMoc).toContain("[[summary/2024-05-01 Plan|Plan]]");
+  });
+
   it("throws when the board fetch fails", async () => {
     vi.mocked(fetch).mockResolvedValue({
       ok: false,
@@ -197,6 +544,161 @@ describe("batchExportFolder", () => {
     }
   });
 
+  it("reads v2 list payloads that use items", async () => {
+    const board = { id: "b9", name: "Items Board", createdAt: "2024-05-03T12:00:00Z" };
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const payload = String(url).includes("/v2/boards") ? { items: [board] } : board;
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+
+    const client = new DagloApiClient();
+    const result = await batchExportFolder(client, {
+      folderId: "folder-2",
+      outputDir: tmp,
+      outputType: "summary",
+      limit: 50,
+    });
+
+    expect(result).toMatchObject({ totalBoards: 1, exportedCount: 1 });
+  });
+
+  it("names notes from the filename pattern and suffixes colliding names", async () => {
+    const boards = [
+      { id: "b2", name: "Standup", createdAt: "2024-05-01T18:00:00Z" },
+      { id: "b1", name: "Standup", createdAt: "2024-05-01T09:00:00Z" },
+    ];
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const href = String(url);
+      const payload = href.includes("/v2/boards")
+        ? { items: boards }
+        : boards.find((board) => href.includes(`/boards/${board.id}`));
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+
+    const client = new DagloApiClient();
+    await batchExportFolder(client, {
+      folderId: "folder-1",
+      outputDir: tmp,
+      outputType: "summary",
+      filenamePattern: "{date} {time} {name}",
+      timezone: "Asia/Seoul",
+    });
+
+    expect(existsSync(join(tmp, "summary", "2024-05-01 1800 Standup.md"))).toBe(true);
+    expect(existsSync(join(tmp, "summary", "2024-05-02 0300 Standup.md"))).toBe(true);
+
+    await batchExportFolder(client, {
+      folderId: "folder-1",
+      outputDir: tmp,
+      outputType: "summary",
+      filenamePattern: "{name}",
+    });
+
+    expect(existsSync(join(tmp, "summary", "Standup.md"))).toBe(true);
+    expect(readFileSync(join(tmp, "summary", "Standup.md"), "utf-8")).toContain("board_id: b1");
+    expect(existsSync(join(tmp, "summary", "Standup (b2).md"))).toBe(true);
+  });
+
+  it("links notes from daily notes and writes folder and keyword MOCs", async () => {
+    const boards = [
+      { id: "b1", name: "Standup", createdAt: "2024-05-01T09:00:00Z", keywords: ["Roadmap"] },
+      { id: "b2", name: "Retro", createdAt: "2024-05-02T09:00:00Z", keywords: ["roadmap"] },
+    ];
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const href = String(url);
+      const payload = href.includes("/folders")
+        ? [{ id: "folder-1", name: "Calls" }]
+        : href.includes("/v2/boards")
+          ? { items: boards }
+          : boards.find((board) => href.includes(`/boards/${board.id}`));
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+    mkdirSync(join(tmp, "Daily"), { recursive: true });
+    writeFileSync(join(tmp, "Daily", "2024-05-01.md"), "# Wednesday\n\nFocus day.\n");
+
+    const client = new DagloApiClient();
+    const options = {
+      folderId: "folder-1",
+      outputDir: tmp,
+      outputType: "summary" as const,
+      timezone: "UTC",
+      dailyNotes: true,
+      dailyNotesFolder: "Daily",
+      dailyNotesHeading: "Meetings",
+      moc: true,
+    };
+    await batchExportFolder(client, options);
+    await batchExportFolder(client, options);
+
+    expect(readFileSync(join(tmp, "Daily", "2024-05-01.md"), "utf-8")).toBe(
+      "# Wednesday\n\nFocus day.\n\n## Meetings\n\n- [[summary/2024-05-01 Standup|Standup]]\n"
+    );
+    expect(readFileSync(join(tmp, "Daily", "2024-05-02.md"), "utf-8")).toContain(
+      "- [[summary/2024-05-02 Retro|Retro]]"
+    );
+    const folderMoc = readFileSync(join(tmp, "MOC", "Folders", "Calls.md"), "utf-8");
+    expect(folderMoc).toContain("- [[summary/2024-05-01 Standup|Standup]] (2024-05-01)");
+    expect(folderMoc).toContain("- [[summary/2024-05-02 Retro|Retro]] (2024-05-02)");
+    const keywordMoc = readFileSync(join(tmp, "MOC", "Keywords", "Roadmap.md"), "utf-8");
+    expect(keywordMoc).toContain("# Roadmap");
+    expect(keywordMoc).toContain("[[summary/2024-05-02 Retro|Retro]]");
+  });
+
+  it("keeps boards from earlier runs in the MOCs", async () => {
+    const boards = [
+      { id: "b1", name: "Standup", createdAt: "2024-05-01T09:00:00Z", keywords: ["Roadmap"] },
+      { id: "b2", name: "Retro", createdAt: "2024-05-02T09:00:00Z", keywords: ["roadmap"] },
+    ];
+    let listed = boards;
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const href = String(url);
+      const payload = href.includes("/folders")
+        ? [{ id: "folder-1", name: "Calls" }]
+        : href.includes("/v2/boards")
+          ? { items: listed }
+          : boards.find((board) => href.includes(`/boards/${board.id}`));
+      return Promise.resolve({
+        ok: true,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+    writeFileSync(join(tmp, "Notes.md"), "---\ntitle: Mine\nboard_id: x\n---\nNot from Daglo.\n");
+
+    const client = new DagloApiClient();
+    const options = {
+      folderId: "folder-1",
+      outputDir: tmp,
+      outputType: "both" as const,
+      timezone: "UTC",
+      moc: true,
+    };
+    await batchExportFolder(client, options);
+    listed = [{ ...boards[1], name: "Retro v2" }];
+    boards[1].name = "Retro v2";
+    await batchExportFolder(client, options);
+
+    const folderMoc = readFileSync(join(tmp, "MOC", "Folders", "Calls.md"), "utf-8");
+    expect(folderMoc).toContain("- [[summary/2024-05-01 Standup|Standup]] (2024-05-01)");
+    expect(folderMoc).toContain("- [[summary/2024-05-02 Retro v2|Retro v2]] (2024-05-02)");
+    expect(folderMoc).not.toContain("original/");
+    expect(folderMoc).not.toContain("Mine");
+    const keywordMoc = readFileSync(join(tmp, "MOC", "Keywords", "Roadmap.md"), "utf-8");
+    expect(keywordMoc).toContain("[[summary/2024-05-01 Standup|Standup]]");
+  });
+
   it("returns empty result when no boards in folder", async () => {
     vi.mocked(fetch).mockResolvedValue({
       ok: true,
@@ -235,4 +737,300 @@ describe("batchExportFolder", () => {
       })
     ).rejects.toThrow("Failed to fetch boards: Unauthorized");
   });
+
+  describe("recursive export", () => {
+    const folders = [
+      { id: "root", name: "", isRoot: true },
+      { id: "f1", name: "Work", parentId: "root" },
+      { id: "f2", name: "Calls", parentId: "f1" },
+      { id: "f3", name: "Home", parentId: "root" },
+    ];
+    const boardsByFolder: Record<string, Array<Record<string, string>>> = {
+      root: [{ id: "b0", name: "Inbox Note" }],
+      f1: [{ id: "b1", name: "Plan" }],
+      f2: [{ id: "b2", name: "Standup" }],
+      f3: [],
+    };
+
+    beforeEach(() => {
+      vi.mocked(fetch).mockImplementation((url: any) => {
+        const parsed = new URL(String(url));
+        let payload: unknown;
+        if (parsed.pathname === "/folders") {
+          payload = folders;
+        } else if (parsed.pathname === "/v2/boards") {
+          const folderId = parsed.searchParams.get("folderId") ?? "";
+          payload = { items: boardsByFolder[folderId] ?? [] };
+        } else {
+          const id = parsed.pathname.split("/").pop();
+          payload = {
+            ...Object.values(boardsByFolder).flat().find((b) => b.id === id),
+            createdAt: "2024-05-01T12:00:00Z",
+            summary: "Summary",
+          };
+        }
+        return Promise.resolve({
+          ok: true,
+          json: async () => payload,
+          text: async () => JSON.stringify(payload),
+        } as any);
+      });
+    });
+
+    const relativeFiles = (files: string[]) =>
+      files.map((file) => file.slice(tmp.length + 1)).sort();
+
+    it("mirrors child folders below the exported folder", async () => {
+      const client = new DagloApiClient();
+      const result = (await batchExportFolder(client, {
+        folderId: "f1",
+        recursive: true,
+        outputDir: tmp,
+        outputType: "summary",
+      })) as { totalBoards: number; generatedFiles: string[] };
+
+      expect(result.totalBoards).toBe(2);
+      expect(relativeFiles(result.generatedFiles)).toEqual([
+        join("Calls", "summary", "2024-05-01 Standup.md"),
+        join("summary", "2024-05-01 Plan.md"),
+      ]);
+    });
+
+    it("exports the whole account when no folder is given", async () => {
+      const client = new DagloApiClient();
+      const result = (await batchExportFolder(client, {
+        outputDir: tmp,
+        outputType: "summary",
+      })) as { generatedFiles: string[] };
+
+      expect(relativeFiles(result.generatedFiles)).toEqual([
+        join("Work", "Calls", "summary", "2024-05-01 Standup.md"),
+        join("Work", "summary", "2024-05-01 Plan.md"),
+        join("summary", "2024-05-01 Inbox Note.md"),
+      ]);
+    });
+
+    it("stops once the board limit is reached", async () => {
+      const client = new DagloApiClient();
+      const result = await batchExportFolder(client, {
+        outputDir: tmp,
+        outputType: "summary",
+        limit: 2,
+      });
+
+      expect(result).toMatchObject({ totalBoards: 2, exportedCount: 2 });
+    });
+
+    it("rejects an unknown folder", async () => {
+      const client = new DagloApiClient();
+      await expect(
+        batchExportFolder(client, {
+          folderId: "nope",
+          recursive: true,
+          outputDir: tmp,
+          outputType: "both",
+        })
+      ).rejects.toThrow("Folder nope not found");
+    });
+  });
+});
+
+describe("syncObsidianVault", () => {
+  let listed: Array<Record<string, unknown>>;
+  let missing: Record<string, number | Record<string, unknown>>;
+
+  beforeEach(() => {
+    listed = [
+      { id: "b1", name: "Plan", createdAt: "2024-05-01T12:00:00Z", updatedAt: "u1" },
+    ];
+    missing = {};
+    vi.mocked(fetch).mockImplementation((url: any) => {
+      const parsed = new URL(String(url));
+      let payload: unknown;
+      if (parsed.pathname === "/folders") {
+        payload = [{ id: "root", name: "", isRoot: true }];
+      } else if (parsed.pathname === "/v2/boards") {
+        payload = { items: listed };
+      } else {
+        const id = parsed.pathname.split("/").pop() ?? "";
+        if (typeof missing[id] === "number") {
+          return Promise.resolve({ ok: false, status: missing[id], statusText: "Gone" } as any);
+        }
+        payload = missing[id] ?? {
+          summary: "Summary",
+          ...listed.find((b) => b.id === id),
+        };
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        json: async () => payload,
+        text: async () => JSON.stringify(payload),
+      } as any);
+    });
+  });
+
+  const detailCalls = () =>
+    vi
+      .mocked(fetch)
+      .mock.calls.filter(([url]) => /\/boards\/b\d$/.test(new URL(String(url)).pathname))
+      .length;
+
+  it("adds new boards and records them in the manifest", async () => {
+    const client = new DagloApiClient();
+    const result = await syncObsidianVault(client, {
+      outputDir: tmp,
+      outputType: "summary",
+    });
+
+    expect(result.added).toEqual(["b1"]);
+    const manifest = JSON.parse(readFileSync(join(tmp, ".daglo-sync.json"), "utf-8"));
+    expect(manifest.boards.b1).toMatchObject({
+      name: "Plan",
+      updatedAt: "u1",
+      dir: "",
+      files: ["summary/2024-05-01 Plan.md"],
+    });
+  });
+
+  it("links synced boards from daily notes and lists them in the MOCs", async () => {
+    const client = new DagloApiClient();
+    const options = {
+      outputDir: tmp,
+      outputType: "summary" as const,
+      timezone: "UTC",
+      dailyNotes: true,
+      moc: true,
+    };
+    const result = await syncObsidianVault(client, options);
+
+    expect(result.generatedFiles).toContain(join(tmp, "2024-05-01.md"));
+    expect(readFileSync(join(tmp, "2024-05-01.md"), "utf-8")).toContain(
+      "- [[summary/2024-05-01 Plan|Plan]]"
+    );
+    expect(readFileSync(join(tmp, "MOC", "Folders", "Unfiled.md"), "utf-8")).toContain(
+      "[[summary/2024-05-01 Plan|Plan]]"
+    );
+
+    listed.push({ id: "b2", name: "Retro", createdAt: "2024-05-02T12:00:00Z", updatedAt: "u1" });
+    await syncObsidianVault(client, options);
+
+    const folderMoc = readFileSync(join(tmp, "MOC", "Folders", "Unfiled.md"), "utf-8");
+    expect(folderMoc).toContain("[[summary/2024-05-01 Plan|Plan]]");
+    expect(folderMoc).toContain("[[summary/2024-05-02 Retro|Retro]]");
+  });
+
+  it("skips boards whose listing is unchanged without fetching detail", async () => {
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+    vi.mocked(fetch).mockClear();
+
+    const result = await syncObsidianVault(client, {
+      outputDir: tmp,
+      outputType: "summary",
+    });
+
+    expect(result.unchanged).toBe(1);
+    expect(result.generatedFiles).toEqual([]);
+    expect(detailCalls()).toBe(0);
+  });
+
+  it("moves notes when a board is renamed", async () => {
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+
+    listed = [{ ...listed[0], name: "Roadmap", updatedAt: "u2" }];
+    const result = await syncObsidianVault(client, {
+      outputDir: tmp,
+      outputType: "summary",
+    });
+
+    expect(result.renamed).toEqual(["b1"]);
+    expect(existsSync(join(tmp, "summary", "2024-05-01 Plan.md"))).toBe(false);
+    expect(existsSync(join(tmp, "summary", "2024-05-01 Roadmap.md"))).toBe(true);
+  });
+
+  it("drops notes of a type no longer synced unless they were edited", async () => {
+    listed = [
+      { ...listed[0], content: "Plan text" },
+      {
+        id: "b2",
+        name: "Retro",
+        createdAt: "2024-05-02T12:00:00Z",
+        updatedAt: "u1",
+        content: "Retro text",
+      },
+    ];
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "both" });
+    const editedPath = join(tmp, "original", "2024-05-02 Retro.md");
+    writeFileSync(editedPath, `${readFileSync(editedPath, "utf-8")}\nMy own notes.\n`);
+
+    const result = await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+
+    expect(result.unchanged).toBe(0);
+    expect(existsSync(join(tmp, "original", "2024-05-01 Plan.md"))).toBe(false);
+    expect(readFileSync(editedPath, "utf-8")).toContain("My own notes.");
+    expect(result.orphaned).toEqual(["original/2024-05-02 Retro.md"]);
+    const manifest = JSON.parse(readFileSync(join(tmp, ".daglo-sync.json"), "utf-8"));
+    expect(manifest.boards.b1).toMatchObject({
+      outputType: "summary",
+      files: ["summary/2024-05-01 Plan.md"],
+    });
+  });
+
+  it("re-renders unchanged boards when the templates change", async () => {
+    const templateDir = join(tmp, ".templates");
+    mkdirSync(templateDir);
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary", templateDir });
+
+    writeFileSync(join(templateDir, "summary.md"), "# {{title}} (custom)\n");
+    const result = await syncObsidianVault(client, {
+      outputDir: tmp,
+      outputType: "summary",
+      templateDir,
+    });
+
+    expect(result.updated).toEqual(["b1"]);
+    expect(readFileSync(join(tmp, "summary", "2024-05-01 Plan.md"), "utf-8")).toContain(
+      "# Plan (custom)"
+    );
+  });
+
+  it("prunes only boards that were deleted in Daglo", async () => {
+    listed.push({ id: "b2", name: "Moved", createdAt: "2024-05-02T12:00:00Z" });
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+
+    listed = [];
+    missing = { b1: 404, b2: { id: "b2", name: "Moved", folderId: "elsewhere" } };
+    const result = await syncObsidianVault(client, {
+      outputDir: tmp,
+      outputType: "summary",
+      prune: true,
+    });
+
+    expect(result.deleted).toEqual(["b1"]);
+    expect(existsSync(join(tmp, "summary", "2024-05-01 Plan.md"))).toBe(false);
+    expect(existsSync(join(tmp, "summary", "2024-05-02 Moved.md"))).toBe(true);
+  });
+  it("keeps user annotations and properties when a synced note changes", async () => {
+    const client = new DagloApiClient();
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+
+    const notePath = join(tmp, "summary", "2024-05-01 Plan.md");
+    const edited = readFileSync(notePath, "utf-8")
+      .replace("source: daglo", "source: daglo\nreviewed: true")
+      .concat("\n## My notes\nFollow up with design.\n");
+    writeFileSync(notePath, edited);
+
+    listed = [{ ...listed[0], updatedAt: "u2", summary: "Revised" }];
+    await syncObsidianVault(client, { outputDir: tmp, outputType: "summary" });
+
+    const note = readFileSync(notePath, "utf-8");
+    expect(note).toContain("Revised");
+    expect(note).toContain("reviewed: true");
+    expect(note).toContain("## My notes\nFollow up with design.");
+  });
 });
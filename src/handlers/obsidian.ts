@@ -1,27 +1,74 @@
-import { mkdirSync, writeFileSync } from "node:fs";
-import { resolve } from "node:path";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, dirname, join, relative, resolve, sep } from "node:path";
 import { DagloApiClient } from "../api/client.js";
+import { toApiError } from "../api/errors.js";
+import { RenderedNote, renderObsidianNotes, writeNote } from "../exporters/obsidian.js";
+import { getExporter } from "../exporters/registry.js";
+import { BoardExporter, ExportBoard, OutputType } from "../exporters/types.js";
+import { collectBoards, saveBoardMedia } from "./boards.js";
+import { loadExportBoard } from "./export.js";
+import { getFolders, lookupFolderPath } from "./folders.js";
 import { logger } from "../logger.js";
-import {
-  decodeZlibBase64Content,
-  normalizeScriptContent,
-} from "../utils/content.js";
+import { parseBoardDetail } from "../utils/board.js";
+import { buildBoardCanvas, serializeCanvas } from "../utils/canvas.js";
 import { sanitizeFilename } from "../utils/file.js";
 import {
-  buildPlainTextFromTokens,
-  extractKaraokeTokens,
-} from "../utils/karaoke.js";
+  buildFolderTree,
+  findFolderNode,
+  FolderDir,
+  getFolderPath,
+  listFolderDirs,
+  parseFolderList,
+} from "../utils/folder.js";
+import { splitFrontmatter } from "../utils/managed-note.js";
+import { MediaLink, resolveMediaLink } from "../utils/media-link.js";
+import {
+  assertFilenamePattern,
+  assertTimeZone,
+  assignNoteBaseNames,
+  buildNoteBaseName,
+  DEFAULT_FILENAME_PATTERN,
+  NoteNaming,
+} from "../utils/note-filename.js";
 import {
-  formatDateForFilename,
-  formatOriginalContent,
-  formatSummaryContent,
-  generateFrontmatter,
-} from "../utils/obsidian.js";
+  loadNoteTemplates,
+  loadObsidianConfig,
+  NoteTemplates,
+} from "../utils/note-templates.js";
+import { composeNote, formatDateForFilename } from "../utils/obsidian.js";
+import {
+  appendDailyNoteLinks,
+  buildMocNotes,
+  DEFAULT_DAILY_NOTES_HEADING,
+  IndexedNote,
+  mergeIndexedNotes,
+  MOC_DIR,
+  readIndexedNote,
+} from "../utils/vault-index.js";
 import { buildUrl, parseResponseBody } from "../utils/http.js";
+import { NormalizedBoard } from "../schemas/boards.js";
 import {
   ExportToObsidianArgs,
   BatchExportFolderArgs,
+  SyncObsidianArgs,
 } from "../schemas/obsidian.js";
+import {
+  getManifestPath,
+  hashContent,
+  hashNotes,
+  loadManifest,
+  saveManifest,
+} from "../sync/manifest.js";
+
+const BATCH_PAGE_SIZE = 50;
 
 export const exportToObsidian = async (
   client: DagloApiClient,
@@ -31,196 +78,75 @@ export const exportToObsidian = async (
     const outputDir = args.outputDir || "./docs";
     const outputType = args.outputType || "both";
 
-    const url = buildUrl(client.baseUrl, `/boards/${args.boardId}`);
-    const response = await client.request(url);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch board: ${response.statusText}`);
-    }
-
-    const rawBoardData = (await parseResponseBody(response)) as {
-      id: string;
-      name: string;
-      createTime?: string;
-      createdAt?: string;
-      content?: string;
-      summary?: string;
-      keywords?: string[];
-      aiSummary?: string;
-      fileMetaId?: string;
-      fileMeta?: Array<{ id: string }>;
-    };
-
-    if (!rawBoardData) {
-      throw new Error("Failed to parse board data");
-    }
-
-    const boardData = {
-      ...rawBoardData,
-      createdAt: rawBoardData.createdAt || rawBoardData.createTime || new Date().toISOString(),
-    };
-
-    const fileMetaId = args.fileMetaId ||
-      rawBoardData.fileMetaId ||
-      rawBoardData.fileMeta?.[0]?.id;
-    let content: string | undefined;
-
-    if (fileMetaId) {
-      const scriptUrl = buildUrl(
-        client.baseUrl,
-        `/file-meta/${fileMetaId}/script`,
-        { includeContent: "true" }
-      );
-      const scriptResponse = await client.request(scriptUrl);
-
-      if (scriptResponse.ok) {
-        const scriptData = (await parseResponseBody(scriptResponse)) as
-          | { content?: string; script?: string; text?: string; item?: string }
-          | string;
-
-        let rawContent: string | undefined;
-        if (typeof scriptData === "string") {
-          rawContent = scriptData;
-        } else {
-          rawContent =
-            scriptData.content ??
-            scriptData.script ??
-            scriptData.text ??
-            scriptData.item;
-        }
-
-        if (rawContent) {
-          const normalizedContent = normalizeScriptContent(rawContent);
-          const tokens = extractKaraokeTokens(normalizedContent);
-          content = buildPlainTextFromTokens(tokens);
-
-          if (!content && normalizedContent) {
-            content = normalizedContent;
-          }
-        }
-      }
-    }
-
-    if (!content && boardData.content) {
-      content = decodeZlibBase64Content(boardData.content);
-    }
-
-    let summary = boardData.summary;
-    let keywords = boardData.keywords || [];
-    let aiSummary = boardData.aiSummary;
-    let segments: Array<{
-      startTime: number;
-      endTime: number;
-      text: string;
-      speaker?: string;
-    }> = [];
-
-    if (fileMetaId) {
-      if (args.includeSummary) {
-        const summaryUrl = buildUrl(
-          client.baseUrl,
-          `/file-meta/${fileMetaId}/summary`
-        );
-        const summaryResponse = await client.request(summaryUrl);
-        if (summaryResponse.ok) {
-          const summaryData = (await parseResponseBody(summaryResponse)) as {
-            summary?: string;
-          };
-          summary = summaryData?.summary || summary;
-        }
-      }
+    const boardData = await loadExportBoard(client, args.boardId, {
+      fileMetaId: args.fileMetaId,
+      includeSummary: args.includeSummary,
+      includeKeywords: args.includeKeywords,
+      includeAiSummary: args.includeAiSummary,
+      includeSegments: true,
+    });
 
-      if (args.includeKeywords) {
-        const keywordsUrl = buildUrl(
-          client.baseUrl,
-          `/file-meta/${fileMetaId}/keywords`
-        );
-        const keywordsResponse = await client.request(keywordsUrl);
-        if (keywordsResponse.ok) {
-          const keywordsData = (await parseResponseBody(keywordsResponse)) as {
-            keywords?: string[];
-          };
-          keywords = keywordsData?.keywords || keywords;
-        }
-      }
+    const { naming } = loadNoteSettings(args);
+    const exporter = getExporter("obsidian").create({
+      templateDir: args.templateDir,
+      outputType,
+      mindmap: args.mindmap,
+    });
+    boardData.folderPath = await lookupFolderPath(client, boardData.folderId);
+    const baseFilename = avoidForeignNote(
+      outputDir,
+      buildNoteBaseName(toNameSource(boardData, boardData.folderPath), naming),
+      boardData.id
+    );
 
-      if (args.includeAiSummary) {
-        const aiSummaryUrl = buildUrl(
-          client.baseUrl,
-          `/file-meta/${fileMetaId}/long-summary`
+    const generatedFiles: string[] = [];
+    let media: MediaLink | undefined = resolveMediaLink(boardData);
+    let attachment: string | undefined;
+
+    if (args.withMedia) {
+      if (boardData.fileUrl) {
+        const saved = await saveBoardMedia(
+          client,
+          boardData.raw,
+          resolveAttachmentDir(outputDir, resolve(outputDir, "summary")),
+          baseFilename
         );
-        const aiSummaryResponse = await client.request(aiSummaryUrl);
-        if (aiSummaryResponse.ok) {
-          const aiSummaryData = (await parseResponseBody(
-            aiSummaryResponse
-          )) as { longSummary?: string };
-          aiSummary = aiSummaryData?.longSummary || aiSummary;
-        }
-      }
-
-      const segmentsUrl = buildUrl(
-        client.baseUrl,
-        `/file-meta/${fileMetaId}/segment-summary`
-      );
-      const segmentsResponse = await client.request(segmentsUrl);
-      if (segmentsResponse.ok) {
-        const segmentsData = (await parseResponseBody(segmentsResponse)) as {
-          segments?: Array<{
-            startTime: number;
-            endTime: number;
-            text: string;
-            speaker?: string;
-          }>;
-        };
-        segments = segmentsData?.segments || [];
+        attachment = basename(saved.path);
+        media = { kind: "file", path: attachment };
+        generatedFiles.push(saved.path);
+      } else {
+        logger.warn({ boardId: boardData.id }, "Board has no media file to download");
       }
     }
 
-    const dateForFilename = formatDateForFilename(boardData.createdAt);
-    const sanitizedName = sanitizeFilename(boardData.name);
-    const baseFilename = `${dateForFilename} ${sanitizedName}`;
-
-    const tags = ["journal", "daglo"];
-    const frontmatter = generateFrontmatter({
-      title: boardData.name,
-      date: boardData.createdAt,
-      tags,
-      keywords,
-      boardId: boardData.id,
-      created: boardData.createdAt,
+    const notePaths = exporter.exportBoard(boardData, {
+      outputDir,
+      baseName: baseFilename,
+      timeZone: naming.timeZone,
+      attachment,
+      media,
     });
+    generatedFiles.push(...notePaths);
 
-    const generatedFiles: string[] = [];
-
-    if ((outputType === "original" || outputType === "both") && content) {
-      const originalDir = resolve(outputDir, "original");
-      mkdirSync(originalDir, { recursive: true });
-
-      const originalFilePath = resolve(originalDir, `${baseFilename}.md`);
-      const formattedContent = formatOriginalContent(content);
-      const fullContent = `${frontmatter}\n\n${formattedContent}`;
-
-      writeFileSync(originalFilePath, fullContent, "utf-8");
-      generatedFiles.push(originalFilePath);
+    const linked = pickLinkedNote(notePaths);
+    if (linked) {
+      const note = toIndexedNote(boardData, toNoteLink(outputDir, linked), naming.timeZone);
+      generatedFiles.push(...writeVaultIndexes(outputDir, [note], args));
     }
 
-    if (outputType === "summary" || outputType === "both") {
-      const summaryDir = resolve(outputDir, "summary");
-      mkdirSync(summaryDir, { recursive: true });
-
-      const summaryFilePath = resolve(summaryDir, `${baseFilename}.md`);
-      const summaryContentBody = formatSummaryContent({
+    if (args.canvas) {
+      const canvasPath = resolve(outputDir, "canvas", `${baseFilename}.canvas`);
+      const hasSummary = outputType === "summary" || outputType === "both";
+      const canvas = buildBoardCanvas({
         title: boardData.name,
-        originalFilename: `${baseFilename}.md`,
-        summary,
-        aiSummary,
-        keywords,
-        segments,
+        segments: boardData.segments,
+        keywords: boardData.keywords,
+        notePath: hasSummary ? `summary/${baseFilename}.md` : undefined,
+        media,
       });
-      const fullSummaryContent = `${frontmatter}\n\n${summaryContentBody}`;
-
-      writeFileSync(summaryFilePath, fullSummaryContent, "utf-8");
-      generatedFiles.push(summaryFilePath);
+      mkdirSync(dirname(canvasPath), { recursive: true });
+      writeFileSync(canvasPath, serializeCanvas(canvas), "utf-8");
+      generatedFiles.push(canvasPath);
     }
 
     return {
@@ -237,184 +163,614 @@ export const exportToObsidian = async (
   }
 };
 
+interface BatchExportTally {
+  totalBoards: number;
+  successCount: number;
+  errorCount: number;
+  exportedFiles: string[];
+  /** Exported boards for daily notes and MOCs, with the absolute path of the note to link. */
+  exportedBoards: Array<Omit<IndexedNote, "link"> & { notePath: string }>;
+}
+
+interface RenderedBoard {
+  board: ExportBoard;
+  baseFilename: string;
+  notes: RenderedNote[];
+}
+
+interface NoteSettings {
+  templates: NoteTemplates;
+  naming: NoteNaming;
+  /** Changes whenever the templates or naming would render different notes. */
+  fingerprint: string;
+}
+
+const loadNoteSettings = (args: {
+  templateDir?: string;
+  filenamePattern?: string;
+  timezone?: string;
+}): NoteSettings => {
+  const config = loadObsidianConfig();
+  const timeZone = args.timezone ?? config.timezone;
+  const templates = loadNoteTemplates(args.templateDir);
+  const naming = {
+    pattern: assertFilenamePattern(
+      args.filenamePattern ?? config.filenamePattern ?? DEFAULT_FILENAME_PATTERN
+    ),
+    timeZone: timeZone ? assertTimeZone(timeZone) : undefined,
+  };
+  return {
+    templates,
+    naming,
+    fingerprint: hashContent(
+      JSON.stringify([templates.fingerprint, naming.pattern, naming.timeZone ?? ""])
+    ),
+  };
+};
+
+const readNoteBoardId = (filePath: string): string | undefined => {
+  if (!existsSync(filePath)) return undefined;
+  const { frontmatter } = splitFrontmatter(readFileSync(filePath, "utf-8"));
+  return frontmatter?.match(/^board_id:\s*["']?([^"'\s]+)/m)?.[1];
+};
+
+/** Appends the board ID when a note of another board already has this name. */
+const avoidForeignNote = (outputDir: string, baseFilename: string, boardId: string) => {
+  const taken = ["original", "summary"].some((kind) => {
+    const owner = readNoteBoardId(resolve(outputDir, kind, `${baseFilename}.md`));
+    return owner !== undefined && owner !== boardId;
+  });
+  return taken ? `${baseFilename} (${sanitizeFilename(boardId)})` : baseFilename;
+};
+
+// Reads one setting of an Obsidian core plugin from the vault's `.obsidian` folder.
+const readVaultSetting = (vaultDir: string, file: string, key: string) => {
+  try {
+    const settings = JSON.parse(
+      readFileSync(join(vaultDir, ".obsidian", file), "utf-8")
+    ) as Record<string, unknown>;
+    return typeof settings[key] === "string" ? settings[key] : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Follows the vault's "Default location for new attachments" setting when there is one.
+const resolveAttachmentDir = (vaultDir: string, noteDir: string) => {
+  const folder =
+    readVaultSetting(vaultDir, "app.json", "attachmentFolderPath") ?? "attachments";
+  if (folder === "" || folder === "/") return resolve(vaultDir);
+  if (folder === "." || folder === "./") return noteDir;
+  if (folder.startsWith("./")) return resolve(noteDir, folder.slice(2));
+  return resolve(vaultDir, folder);
+};
+
+const toNameSource = (
+  board: Pick<NormalizedBoard, "id" | "name" | "createdAt">,
+  folderPath?: string
+) => ({
+  id: board.id,
+  name: board.name,
+  createdAt: board.createdAt,
+  folder: folderPath?.split("/").pop(),
+});
+
+/**
+ * Names a directory's notes from the board listing so collisions resolve the
+ * same way every run; a listing without creation times falls back to the
+ * board detail.
+ */
+const createDirNamer = (
+  boards: NormalizedBoard[],
+  naming: NoteNaming,
+  folderPath?: string
+) => {
+  const names = assignNoteBaseNames(
+    boards.map((board) => toNameSource(board, folderPath)),
+    naming
+  );
+  const listed = new Map(boards.map((board) => [board.id, board]));
+  return {
+    fromListing: (boardId: string) => names.get(boardId)!,
+    fromDetail: (detail: NormalizedBoard) =>
+      listed.get(detail.id)?.createdAt
+        ? names.get(detail.id)!
+        : buildNoteBaseName(toNameSource(detail, folderPath), naming),
+  };
+};
+
+const renderBoardNotes = async (
+  client: DagloApiClient,
+  boardId: string,
+  outputType: OutputType,
+  { templates, naming }: NoteSettings,
+  placement: { nameFor: (board: NormalizedBoard) => string; folderPath?: string }
+): Promise<RenderedBoard> => {
+  const board = await loadExportBoard(client, boardId, {
+    folderPath: placement.folderPath,
+  });
+  const baseFilename = placement.nameFor({ ...board.raw, createdAt: board.createdAt });
+  const notes = renderObsidianNotes(board, {
+    templates,
+    outputType,
+    baseFilename,
+    timeZone: naming.timeZone,
+  });
+
+  return { board, baseFilename, notes };
+};
+
+const exportBoardsToDir = async (
+  client: DagloApiClient,
+  boards: NormalizedBoard[],
+  outputDir: string,
+  exporter: BoardExporter,
+  naming: NoteNaming,
+  tally: BatchExportTally,
+  folderPath?: string
+): Promise<void> => {
+  tally.totalBoards += boards.length;
+  const namer = createDirNamer(boards, naming, folderPath);
+  for (const board of boards) {
+    try {
+      const detail = await loadExportBoard(client, board.id, { folderPath });
+      const files = exporter.exportBoard(detail, {
+        outputDir,
+        baseName: namer.fromDetail({ ...detail.raw, createdAt: detail.createdAt }),
+        timeZone: naming.timeZone,
+      });
+      tally.exportedFiles.push(...files);
+      const linked = pickLinkedNote(files);
+      if (linked) {
+        tally.exportedBoards.push({
+          boardId: detail.id,
+          title: detail.name,
+          date: formatDateForFilename(detail.createdAt, naming.timeZone),
+          keywords: detail.keywords,
+          folder: folderPath,
+          notePath: linked,
+        });
+      }
+      tally.successCount++;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      logger.error(
+        { boardId: board.id, error: errorMessage },
+        "Failed to export board"
+      );
+      tally.errorCount++;
+    }
+  }
+};
+
+/** Index entries of the Daglo notes already in the vault, preferring summary notes. */
+const scanVaultNotes = (vaultDir: string): IndexedNote[] => {
+  const root = resolve(vaultDir);
+  const notes = new Map<string, IndexedNote>();
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (path !== join(root, MOC_DIR)) walk(path);
+        continue;
+      }
+      if (!entry.name.endsWith(".md")) continue;
+
+      const vaultPath = toVaultPath(relative(root, path));
+      const { frontmatter } = splitFrontmatter(readFileSync(path, "utf-8"));
+      const note = frontmatter && readIndexedNote(vaultPath.replace(/\.md$/, ""), frontmatter);
+      if (!note) continue;
+      const known = notes.get(note.boardId);
+      if (!known || noteKindOf(vaultPath) === "summary") notes.set(note.boardId, note);
+    }
+  };
+  if (existsSync(root)) walk(root);
+  return [...notes.values()];
+};
+
+/** Links each note from the daily note of the day its board was created. */
+const writeDailyNoteLinks = (
+  vaultDir: string,
+  notes: IndexedNote[],
+  options: { dailyNotesFolder?: string; dailyNotesHeading?: string }
+): string[] => {
+  const config = loadObsidianConfig();
+  const folder =
+    options.dailyNotesFolder ??
+    config.dailyNotesFolder ??
+    readVaultSetting(vaultDir, "daily-notes.json", "folder") ??
+    "";
+  const heading =
+    options.dailyNotesHeading ?? config.dailyNotesHeading ?? DEFAULT_DAILY_NOTES_HEADING;
+
+  const byDate = new Map<string, IndexedNote[]>();
+  for (const note of notes) {
+    if (note.date) byDate.set(note.date, [...(byDate.get(note.date) ?? []), note]);
+  }
+
+  const written: string[] = [];
+  for (const [date, dayNotes] of byDate) {
+    const filePath = resolve(vaultDir, folder, `${date}.md`);
+    const existing = existsSync(filePath) ? readFileSync(filePath, "utf-8") : "";
+    const updated = appendDailyNoteLinks(existing, heading, dayNotes);
+    if (updated === existing) continue;
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, updated, "utf-8");
+    written.push(filePath);
+  }
+  return written;
+};
+
+/**
+ * Writes the daily-note links and MOCs a run asked for. A run may cover one
+ * board or a few changed ones, so the MOCs are rebuilt from the whole vault.
+ */
+const writeVaultIndexes = (
+  vaultDir: string,
+  notes: IndexedNote[],
+  options: {
+    dailyNotes?: boolean;
+    dailyNotesFolder?: string;
+    dailyNotesHeading?: string;
+    moc?: boolean;
+  }
+): string[] => {
+  const written: string[] = [];
+  if (options.dailyNotes) {
+    written.push(...writeDailyNoteLinks(vaultDir, notes, options));
+  }
+  if (options.moc) {
+    for (const moc of buildMocNotes(mergeIndexedNotes(scanVaultNotes(vaultDir), notes))) {
+      const filePath = fromVaultPath(vaultDir, moc.path);
+      writeNote(filePath, composeNote(moc.frontmatter, moc.body));
+      written.push(filePath);
+    }
+  }
+  return written;
+};
+
+/** The note daily notes and MOCs link to: the summary when there is one. */
+const pickLinkedNote = (notePaths: string[]) =>
+  notePaths.find((path) => basename(dirname(path)) === "summary") ?? notePaths[0];
+
+const toIndexedNote = (
+  board: Pick<ExportBoard, "id" | "name" | "createdAt" | "keywords" | "folderPath">,
+  link: string,
+  timeZone?: string
+): IndexedNote => ({
+  boardId: board.id,
+  title: board.name,
+  date: formatDateForFilename(board.createdAt, timeZone),
+  keywords: board.keywords,
+  folder: board.folderPath,
+  link,
+});
+
+const toNoteLink = (vaultDir: string, notePath: string) =>
+  toVaultPath(relative(resolve(vaultDir), resolve(vaultDir, notePath))).replace(/\.md$/, "");
+
+type ExportDir = FolderDir & { folderPath?: string };
+
+/**
+ * Lists the folders to export with their vault subdirectories: the given
+ * folder (or the account root) maps to the output directory itself.
+ */
+const resolveExportDirs = async (
+  client: DagloApiClient,
+  folderId: string | undefined
+): Promise<ExportDir[]> => {
+  const tree = buildFolderTree(
+    parseFolderList(await getFolders(client, { includeRoot: true }))
+  );
+  let dirs: FolderDir[];
+  if (!folderId) {
+    dirs = listFolderDirs(tree);
+  } else {
+    const node = findFolderNode(tree, folderId);
+    if (!node) throw new Error(`Folder ${folderId} not found`);
+    dirs = [{ folderId: node.id, path: [] }, ...listFolderDirs(node.children)];
+  }
+  return dirs.map((dir) => ({ ...dir, folderPath: getFolderPath(tree, dir.folderId) }));
+};
+
 export const batchExportFolder = async (
   client: DagloApiClient,
   args: BatchExportFolderArgs
 ): Promise<unknown> => {
   try {
     const outputDir = args.outputDir || "./docs";
-    const outputType = args.outputType || "both";
-    const limit = args.limit || 50;
-
-    const url = buildUrl(client.baseUrl, "/v2/boards", {
-      folderId: args.folderId,
-      limit,
-      page: 1,
+    const { naming } = loadNoteSettings(args);
+    const exporter = getExporter("obsidian").create({
+      templateDir: args.templateDir,
+      outputType: args.outputType || "both",
     });
-    const response = await client.request(url);
+    const tally: BatchExportTally = {
+      totalBoards: 0,
+      successCount: 0,
+      errorCount: 0,
+      exportedFiles: [],
+      exportedBoards: [],
+    };
+
+    if (args.folderId && !args.recursive) {
+      const boards = await collectBoards(
+        client,
+        { folderId: args.folderId, limit: BATCH_PAGE_SIZE },
+        args.limit
+      );
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch boards: ${response.statusText}`);
+      if (boards.length === 0) {
+        return {
+          success: true,
+          exportedCount: 0,
+          message: "No boards found in folder",
+        };
+      }
+
+      await exportBoardsToDir(
+        client,
+        boards,
+        outputDir,
+        exporter,
+        naming,
+        tally,
+        await lookupFolderPath(client, args.folderId)
+      );
+    } else {
+      const dirs = await resolveExportDirs(client, args.folderId);
+      for (const dir of dirs) {
+        const remaining =
+          args.limit === undefined ? undefined : args.limit - tally.totalBoards;
+        if (remaining !== undefined && remaining <= 0) break;
+
+        const boards = await collectBoards(
+          client,
+          { folderId: dir.folderId, limit: BATCH_PAGE_SIZE },
+          remaining
+        );
+        await exportBoardsToDir(
+          client,
+          boards,
+          resolve(outputDir, ...dir.path),
+          exporter,
+          naming,
+          tally,
+          dir.folderPath
+        );
+      }
     }
 
-    const data = (await parseResponseBody(response)) as {
-      boards?: Array<{
-        id: string;
-        name: string;
-        createdAt: string;
-      }>;
+    const indexed = tally.exportedBoards.map(({ notePath, ...board }) => ({
+      ...board,
+      link: toNoteLink(outputDir, notePath),
+    }));
+    tally.exportedFiles.push(...writeVaultIndexes(outputDir, indexed, args));
+
+    return {
+      success: true,
+      totalBoards: tally.totalBoards,
+      exportedCount: tally.successCount,
+      errorCount: tally.errorCount,
+      generatedFiles: tally.exportedFiles,
     };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage }, "Failed to batch export folder");
+    throw error;
+  }
+};
 
-    const boards = data?.boards || [];
+export interface SyncResult {
+  added: string[];
+  updated: string[];
+  renamed: string[];
+  unchanged: number;
+  deleted: string[];
+  /** Notes no longer generated that were kept because they were edited. */
+  orphaned: string[];
+  errors: Array<{ boardId: string; error: string }>;
+  generatedFiles: string[];
+  manifestPath: string;
+}
 
-    if (boards.length === 0) {
-      return {
-        success: true,
-        exportedCount: 0,
-        message: "No boards found in folder",
-      };
-    }
+const toVaultPath = (path: string) => path.split(sep).filter(Boolean).join("/");
 
-    const exportedFiles: string[] = [];
-    let successCount = 0;
-    let errorCount = 0;
+const fromVaultPath = (vaultDir: string, vaultPath: string) =>
+  resolve(vaultDir, ...vaultPath.split("/"));
 
-    for (const board of boards) {
-      try {
-        const boardUrl = buildUrl(client.baseUrl, `/boards/${board.id}`);
-        const boardResponse = await client.request(boardUrl);
+const noteKindOf = (vaultPath: string) => vaultPath.split("/").at(-2);
 
-        if (!boardResponse.ok) {
-          logger.error(
-            { boardId: board.id, status: boardResponse.status },
-            "Failed to fetch board detail"
-          );
-          errorCount++;
+/** Deleted means gone (404) or sitting in the trash; boards merely outside the sync scope are kept. */
+const isBoardDeleted = async (
+  client: DagloApiClient,
+  boardId: string
+): Promise<boolean> => {
+  const response = await client.request(buildUrl(client.baseUrl, `/boards/${boardId}`));
+  if (response.status === 404) return true;
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to fetch board detail");
+  }
+  return parseBoardDetail(await parseResponseBody(response)).deletedAt !== undefined;
+};
+
+/**
+ * Brings a vault up to date using the manifest from the previous run. Boards
+ * whose list entry (updatedAt, name, folder) is unchanged are skipped without
+ * fetching their detail, so repeat runs only cost the board listing.
+ */
+export const syncObsidianVault = async (
+  client: DagloApiClient,
+  args: SyncObsidianArgs
+): Promise<SyncResult> => {
+  const vaultDir = resolve(args.outputDir || "./docs");
+  const outputType = args.outputType || "both";
+  const settings = loadNoteSettings(args);
+  const manifest = loadManifest(vaultDir);
+  const result: SyncResult = {
+    added: [],
+    updated: [],
+    renamed: [],
+    unchanged: 0,
+    deleted: [],
+    orphaned: [],
+    errors: [],
+    generatedFiles: [],
+    manifestPath: getManifestPath(vaultDir),
+  };
+
+  const seen = new Set<string>();
+  const indexed: IndexedNote[] = [];
+  try {
+    for (const dir of await resolveExportDirs(client, args.folderId)) {
+      const dirKey = dir.path.join("/");
+      const boards = await collectBoards(client, {
+        folderId: dir.folderId,
+        limit: BATCH_PAGE_SIZE,
+      });
+      const namer = createDirNamer(boards, settings.naming, dir.folderPath);
+
+      for (const board of boards) {
+        if (seen.has(board.id)) continue;
+        seen.add(board.id);
+
+        const baseName = namer.fromListing(board.id);
+        const entry = manifest.boards[board.id];
+        const listingUnchanged =
+          entry !== undefined &&
+          entry.updatedAt !== undefined &&
+          entry.updatedAt === board.updatedAt &&
+          entry.name === board.name &&
+          entry.baseName === baseName &&
+          entry.dir === dirKey &&
+          entry.outputType === outputType &&
+          entry.settingsHash === settings.fingerprint &&
+          entry.files.every((file) => existsSync(fromVaultPath(vaultDir, file)));
+        if (!args.force && listingUnchanged) {
+          result.unchanged++;
           continue;
         }
 
-        const boardData = (await parseResponseBody(boardResponse)) as {
-          id: string;
-          name: string;
-          createdAt: string;
-          content?: string;
-          summary?: string;
-          keywords?: string[];
-          aiSummary?: string;
-          fileMetaId?: string;
-        };
-
-        const fileMetaId = boardData.fileMetaId;
-        let content: string | undefined;
-
-        if (fileMetaId) {
-          const scriptUrl = buildUrl(
-            client.baseUrl,
-            `/file-meta/${fileMetaId}/script`,
-            { includeContent: "true" }
+        try {
+          const rendered = await renderBoardNotes(client, board.id, outputType, settings, {
+            nameFor: namer.fromDetail,
+            folderPath: dir.folderPath,
+          });
+          const notes = rendered.notes.map((note) => ({
+            ...note,
+            path: toVaultPath(join(...dir.path, note.path)),
+          }));
+          const files = notes.map((note) => note.path);
+          const contentHash = hashNotes(notes);
+
+          const sameFiles =
+            entry !== undefined &&
+            entry.files.length === files.length &&
+            entry.files.every((file) => files.includes(file));
+          const filesExist = files.every((file) =>
+            existsSync(fromVaultPath(vaultDir, file))
           );
-          const scriptResponse = await client.request(scriptUrl);
 
-          if (scriptResponse.ok) {
-            const scriptData = (await parseResponseBody(scriptResponse)) as
-              | { content?: string; script?: string; text?: string; item?: string }
-              | string;
-
-            let rawContent: string | undefined;
-            if (typeof scriptData === "string") {
-              rawContent = scriptData;
-            } else {
-              rawContent =
-                scriptData.content ??
-                scriptData.script ??
-                scriptData.text ??
-                scriptData.item;
-            }
+          manifest.boards[board.id] = {
+            name: rendered.board.name,
+            updatedAt: board.updatedAt,
+            contentHash,
+            baseName: rendered.baseFilename,
+            dir: dirKey,
+            files,
+            fileHashes: entry?.fileHashes,
+            outputType,
+            settingsHash: settings.fingerprint,
+          };
 
-            if (rawContent) {
-              const normalizedContent = normalizeScriptContent(rawContent);
-              const tokens = extractKaraokeTokens(normalizedContent);
-              content = buildPlainTextFromTokens(tokens);
+          if (!args.force && sameFiles && filesExist && entry?.contentHash === contentHash) {
+            result.unchanged++;
+            continue;
+          }
 
-              if (!content && normalizedContent) {
-                content = normalizedContent;
-              }
+          // Carry old notes over to their new paths before rewriting them.
+          let moved = false;
+          for (const oldFile of entry?.files ?? []) {
+            if (files.includes(oldFile)) continue;
+            const oldPath = fromVaultPath(vaultDir, oldFile);
+            if (!existsSync(oldPath)) continue;
+
+            const target = files.find((file) => noteKindOf(file) === noteKindOf(oldFile));
+            const targetPath = target ? fromVaultPath(vaultDir, target) : undefined;
+            if (targetPath && !existsSync(targetPath)) {
+              mkdirSync(dirname(targetPath), { recursive: true });
+              renameSync(oldPath, targetPath);
+              moved = true;
+            } else if (
+              entry?.fileHashes?.[oldFile] === hashContent(readFileSync(oldPath, "utf-8"))
+            ) {
+              rmSync(oldPath, { force: true });
+            } else {
+              // Without proof that the note is as we wrote it, it may hold user edits.
+              logger.warn(
+                { boardId: board.id, file: oldFile },
+                "Kept an edited note that is no longer generated"
+              );
+              result.orphaned.push(oldFile);
             }
           }
-        }
-
-        if (!content && boardData.content) {
-          content = decodeZlibBase64Content(boardData.content);
-        }
-
-        const dateForFilename = formatDateForFilename(boardData.createdAt);
-        const sanitizedName = sanitizeFilename(boardData.name);
-        const baseFilename = `${dateForFilename} ${sanitizedName}`;
-
-        const tags = ["journal", "daglo"];
-        const frontmatter = generateFrontmatter({
-          title: boardData.name,
-          date: boardData.createdAt,
-          tags,
-          keywords: boardData.keywords || [],
-          boardId: boardData.id,
-          created: boardData.createdAt,
-        });
-
-        if ((outputType === "original" || outputType === "both") && content) {
-          const originalDir = resolve(outputDir, "original");
-          mkdirSync(originalDir, { recursive: true });
 
-          const originalFilePath = resolve(originalDir, `${baseFilename}.md`);
-          const formattedContent = formatOriginalContent(content);
-          const fullContent = `${frontmatter}\n\n${formattedContent}`;
+          const fileHashes: Record<string, string> = {};
+          for (const note of notes) {
+            const filePath = fromVaultPath(vaultDir, note.path);
+            fileHashes[note.path] = hashContent(writeNote(filePath, note.content));
+            result.generatedFiles.push(filePath);
+          }
+          manifest.boards[board.id].fileHashes = fileHashes;
+          const linked = pickLinkedNote(files);
+          if (linked) {
+            indexed.push(
+              toIndexedNote(
+                rendered.board,
+                toNoteLink(vaultDir, linked),
+                settings.naming.timeZone
+              )
+            );
+          }
 
-          writeFileSync(originalFilePath, fullContent, "utf-8");
-          exportedFiles.push(originalFilePath);
+          if (!entry) result.added.push(board.id);
+          else if (moved || !sameFiles) result.renamed.push(board.id);
+          else result.updated.push(board.id);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error({ boardId: board.id, error: message }, "Failed to sync board");
+          result.errors.push({ boardId: board.id, error: message });
         }
+      }
+    }
 
-        if (outputType === "summary" || outputType === "both") {
-          const summaryDir = resolve(outputDir, "summary");
-          mkdirSync(summaryDir, { recursive: true });
-
-          const summaryFilePath = resolve(summaryDir, `${baseFilename}.md`);
-          const summaryContentBody = formatSummaryContent({
-            title: boardData.name,
-            originalFilename: `${baseFilename}.md`,
-            summary: boardData.summary,
-            aiSummary: boardData.aiSummary,
-            keywords: boardData.keywords,
-            segments: [],
-          });
-          const fullSummaryContent = `${frontmatter}\n\n${summaryContentBody}`;
-
-          writeFileSync(summaryFilePath, fullSummaryContent, "utf-8");
-          exportedFiles.push(summaryFilePath);
+    if (args.prune) {
+      for (const [boardId, entry] of Object.entries(manifest.boards)) {
+        if (seen.has(boardId)) continue;
+        try {
+          if (!(await isBoardDeleted(client, boardId))) continue;
+          for (const file of entry.files) {
+            rmSync(fromVaultPath(vaultDir, file), { force: true });
+          }
+          delete manifest.boards[boardId];
+          result.deleted.push(boardId);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error({ boardId, error: message }, "Failed to prune board");
+          result.errors.push({ boardId, error: message });
         }
-
-        successCount++;
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        logger.error(
-          { boardId: board.id, error: errorMessage },
-          "Failed to export board"
-        );
-        errorCount++;
       }
     }
 
-    return {
-      success: true,
-      totalBoards: boards.length,
-      exportedCount: successCount,
-      errorCount,
-      generatedFiles: exportedFiles,
-    };
-  } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMessage }, "Failed to batch export folder");
-    throw error;
+    result.generatedFiles.push(...writeVaultIndexes(vaultDir, indexed, args));
+  } finally {
+    // Persist progress even when the listing fails partway through.
+    manifest.syncedAt = new Date().toISOString();
+    mkdirSync(vaultDir, { recursive: true });
+    saveManifest(vaultDir, manifest);
   }
+
+  return result;
 };
@@ -2,147 +2,76 @@ import { execSync } from "node:child_process";
 import { existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { resolve } from "node:path";
 import { DagloApiClient } from "../api/client.js";
+import { toApiError } from "../api/errors.js";
 import { logger } from "../logger.js";
 import { decodeScriptItem } from "../utils/content.js";
-import { buildUrl, parseResponseBody } from "../utils/http.js";
-import { KaraokeToken } from "../utils/karaoke.js";
+import { parseBoardDetail } from "../utils/board.js";
+import {
+  buildUrl,
+  parseResponseBody,
+  validateResponse,
+} from "../utils/http.js";
+import { AssPreset, generateKaraokeAss, resolveAssStyle } from "../utils/ass.js";
+import { extractYouTubeId } from "../utils/media-link.js";
+import { buildSubtitleCues, generateSrt, SubtitleSegment } from "../utils/subtitles.js";
+import { listSentences, parseTranscript, Transcript } from "../utils/transcript.js";
+import { keywordsResponseSchema } from "../schemas/file-meta.js";
 import {
   CreateYoutubeHighlightClipArgs,
   CreateYoutubeFullSubtitledVideoArgs,
 } from "../schemas/video.js";
 
-type ScriptSegment = {
-  text: string;
-  startTime: number;
-  endTime: number;
-  tokens: KaraokeToken[];
-};
-
-const extractSegmentsFromScript = (script: Record<string, unknown>): ScriptSegment[] => {
-  const segments: ScriptSegment[] = [];
-  const editorState = script.editorState as
-    | { root?: { children?: Array<Record<string, unknown>> } }
-    | undefined;
-  const paragraphs = editorState?.root?.children;
-  if (!Array.isArray(paragraphs)) return segments;
-
-  const tokens: KaraokeToken[] = [];
-  for (const paragraph of paragraphs) {
-    const children = paragraph.children as Array<Record<string, unknown>> | undefined;
-    if (!Array.isArray(children)) continue;
-
-    for (const child of children) {
-      if (child.type === "karaoke" && typeof child.text === "string") {
-        const startTime = typeof child.s === "number" ? child.s : 0;
-        const endTime = typeof child.e === "number" ? child.e : 0;
-        tokens.push({ text: child.text, startTime, endTime });
-      }
-    }
+// Scripts are served in pages of 60 minutes, each a zlib-compressed editor state.
+const fetchScriptTranscript = async (
+  client: DagloApiClient,
+  fileMetaId: string
+): Promise<Transcript> => {
+  const scripts: Record<string, unknown>[] = [];
+  const scriptUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
+    limit: 60,
+    page: 0,
+  });
+  const scriptResponse = await client.request(scriptUrl);
+  if (!scriptResponse.ok) {
+    throw await toApiError(scriptResponse, "Failed to fetch script");
   }
 
-  const segmentsByPunctuation: ScriptSegment[] = [];
-  let currentTokens: KaraokeToken[] = [];
-  let currentText = "";
-  let startTime: number | null = null;
-  let endTime: number | null = null;
-
-  for (const token of tokens) {
-    if (startTime === null) {
-      startTime = token.startTime;
-    }
-    endTime = token.endTime;
-    currentTokens.push(token);
-    currentText += token.text;
-
-    if (/[?.!。！？]/.test(token.text)) {
-      if (startTime !== null && endTime !== null) {
-        segmentsByPunctuation.push({
-          text: currentText.trim(),
-          startTime,
-          endTime,
-          tokens: currentTokens,
-        });
-      }
-      currentTokens = [];
-      currentText = "";
-      startTime = null;
-      endTime = null;
-    }
+  const scriptPayload = (await parseResponseBody(scriptResponse)) as {
+    item?: string;
+    meta?: { totalPages?: number };
+  };
+  const firstScript = decodeScriptItem(scriptPayload?.item);
+  if (firstScript) {
+    scripts.push(firstScript);
   }
 
-  if (currentText.trim().length > 0 && startTime !== null && endTime !== null) {
-    segmentsByPunctuation.push({
-      text: currentText.trim(),
-      startTime,
-      endTime,
-      tokens: currentTokens,
+  const totalPages = scriptPayload?.meta?.totalPages ?? 1;
+  for (let page = 1; page < totalPages; page += 1) {
+    const pageUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
+      limit: 60,
+      page,
     });
-  }
-
-  return segmentsByPunctuation;
-};
-
-const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-
-const normalizeKeywords = (value: unknown): string[] => {
-  if (!Array.isArray(value)) return [];
-  const result: string[] = [];
-  for (const entry of value) {
-    if (typeof entry === "string") {
-      result.push(entry);
-    } else if (entry && typeof entry === "object" && "keyword" in entry) {
-      const keywordValue = (entry as { keyword?: unknown }).keyword;
-      if (typeof keywordValue === "string") {
-        result.push(keywordValue);
-      }
+    const pageResponse = await client.request(pageUrl);
+    if (!pageResponse.ok) {
+      throw await toApiError(pageResponse, `Failed to fetch script page ${page}`);
     }
-  }
-  return result;
-};
-
-const extractYouTubeId = (url: string): string | null => {
-  try {
-    const parsed = new URL(url);
-    const hostname = parsed.hostname.replace(/^www\./, "");
-    if (hostname === "youtu.be") {
-      return parsed.pathname.split("/").filter(Boolean)[0] ?? null;
-    }
-    if (hostname.endsWith("youtube.com")) {
-      const videoId = parsed.searchParams.get("v");
-      if (videoId) return videoId;
-      if (parsed.pathname.startsWith("/shorts/")) {
-        return parsed.pathname.split("/")[2] ?? null;
-      }
-      if (parsed.pathname.startsWith("/live/")) {
-        return parsed.pathname.split("/")[2] ?? null;
-      }
+    const pagePayload = (await parseResponseBody(pageResponse)) as { item?: string };
+    const pageScript = decodeScriptItem(pagePayload?.item);
+    if (pageScript) {
+      scripts.push(pageScript);
     }
-  } catch {
-    return null;
   }
 
-  return null;
+  return parseTranscript(...scripts);
 };
 
-const applyTimeScale = (segments: ScriptSegment[], scale: number): ScriptSegment[] => {
-  if (scale === 1) return segments;
-  return segments.map((segment) => ({
-    ...segment,
-    startTime: segment.startTime * scale,
-    endTime: segment.endTime * scale,
-    tokens: segment.tokens.map((token) => ({
-      ...token,
-      startTime: token.startTime * scale,
-      endTime: token.endTime * scale,
-    })),
-  }));
-};
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
 const selectHighlightSegments = (
-  segments: ScriptSegment[],
+  segments: SubtitleSegment[],
   targetDurationMinutes: number,
   keywords: string[]
-): { segments: ScriptSegment[]; startTime: number; endTime: number } => {
+): { segments: SubtitleSegment[]; startTime: number; endTime: number } => {
   if (segments.length === 0) {
     return { segments: [], startTime: 0, endTime: 0 };
   }
@@ -171,7 +100,7 @@ const selectHighlightSegments = (
     const midpoint = Math.floor(segments.length / 2);
     const fallbackMatch = { segment: segments[midpoint], index: midpoint };
     const { segment, index: centerIndex } = fallbackMatch;
-    let selectedSegments: ScriptSegment[] = [segment];
+    let selectedSegments: SubtitleSegment[] = [segment];
     let totalDuration = segment.endTime - segment.startTime;
 
     let leftIndex = centerIndex - 1;
@@ -219,7 +148,7 @@ const selectHighlightSegments = (
 
   const bestMatch = scoredSegments[0];
   const centerIndex = bestMatch.index;
-  let selectedSegments: ScriptSegment[] = [bestMatch.segment];
+  let selectedSegments: SubtitleSegment[] = [bestMatch.segment];
   let totalDuration = bestMatch.segment.endTime - bestMatch.segment.startTime;
 
   let leftIndex = centerIndex - 1;
@@ -265,177 +194,69 @@ const selectHighlightSegments = (
   return { segments: selectedSegments, startTime, endTime };
 };
 
-const formatTimestamp = (seconds: number): string => {
-  const hrs = Math.floor(seconds / 3600);
-  const mins = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  const ms = Math.floor((seconds % 1) * 1000);
-  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${ms.toString().padStart(3, "0")}`;
-};
-
-const splitLongWord = (word: string, maxLength: number): string[] => {
-  const parts: string[] = [];
-  let remaining = word;
-  while (remaining.length > maxLength) {
-    parts.push(remaining.slice(0, maxLength));
-    remaining = remaining.slice(maxLength);
-  }
-  if (remaining.length > 0) {
-    parts.push(remaining);
-  }
-  return parts;
-};
-
-const wrapSubtitleText = (text: string, maxLineLength: number): string => {
-  const normalized = text.replace(/\s+/g, " ").trim();
-  if (!normalized) return "";
-
-  if (!/\s/.test(normalized)) {
-    return splitLongWord(normalized, maxLineLength).join("\n");
-  }
-
-  const words = normalized.split(" ");
-  const lines: string[] = [];
-  let currentLine = "";
-
-  const flushLine = () => {
-    if (currentLine) {
-      lines.push(currentLine);
-      currentLine = "";
-    }
-  };
-
-  for (const word of words) {
-    if (!currentLine) {
-      if (word.length > maxLineLength) {
-        lines.push(...splitLongWord(word, maxLineLength));
-        continue;
-      }
-      currentLine = word;
-      continue;
-    }
-
-    if (currentLine.length + 1 + word.length <= maxLineLength) {
-      currentLine = `${currentLine} ${word}`;
-      continue;
-    }
-
-    flushLine();
-    if (word.length > maxLineLength) {
-      lines.push(...splitLongWord(word, maxLineLength));
-      continue;
-    }
-    currentLine = word;
-  }
-
-  flushLine();
-  return lines.join("\n");
-};
-
-const splitTokenByMaxChars = (token: KaraokeToken, maxChars: number): KaraokeToken[] => {
-  if (token.text.length <= maxChars) return [token];
-  const totalChars = token.text.length;
-  const duration = token.endTime - token.startTime;
-  const perChar = totalChars > 0 ? duration / totalChars : 0;
-  const parts: KaraokeToken[] = [];
-
-  let offset = 0;
-  while (offset < totalChars) {
-    const chunk = token.text.slice(offset, offset + maxChars);
-    const chunkStart = token.startTime + perChar * offset;
-    const chunkEnd = token.startTime + perChar * (offset + chunk.length);
-    parts.push({ text: chunk, startTime: chunkStart, endTime: chunkEnd });
-    offset += chunk.length;
-  }
+// Escapes a path for a quoted ffmpeg filter argument, where `:` and `'` are syntax.
+const toFilterPath = (path: string) =>
+  path.replace(/\\/g, "/").replace(/:/g, "\\:").replace(/'/g, "\\'");
 
-  return parts;
-};
-
-const splitSegmentsByMaxChars = (
-  segments: ScriptSegment[],
-  maxChars: number
-): ScriptSegment[] => {
-  if (maxChars <= 0) return segments;
-  const results: ScriptSegment[] = [];
-
-  for (const segment of segments) {
-    if (segment.text.length <= maxChars) {
-      results.push(segment);
-      continue;
-    }
-
-    const tokens = segment.tokens.length
-      ? segment.tokens
-      : [{ text: segment.text, startTime: segment.startTime, endTime: segment.endTime }];
-
-    let currentTokens: KaraokeToken[] = [];
-    let currentText = "";
-    let startTime: number | null = null;
-    let endTime: number | null = null;
-
-    const flush = () => {
-      if (!currentText.trim() || startTime === null || endTime === null) return;
-      results.push({
-        text: currentText.trim(),
-        startTime,
-        endTime,
-        tokens: currentTokens,
-      });
-      currentTokens = [];
-      currentText = "";
-      startTime = null;
-      endTime = null;
-    };
-
-    for (const token of tokens) {
-      const parts = splitTokenByMaxChars(token, maxChars);
-      for (const part of parts) {
-        if (!currentText) {
-          startTime = part.startTime;
-        }
-        if (currentText.length + part.text.length > maxChars && currentText) {
-          flush();
-          startTime = part.startTime;
-        }
-        currentText += part.text;
-        endTime = part.endTime;
-        currentTokens.push(part);
-        if (currentText.length >= maxChars) {
-          flush();
-        }
-      }
-    }
-
-    flush();
-  }
-
-  return results;
-};
-
-const generateSrt = (
-  segments: ScriptSegment[],
+type KaraokeStyleArgs = Pick<
+  CreateYoutubeHighlightClipArgs,
+  | "subtitlePreset"
+  | "subtitleFont"
+  | "subtitleFontSize"
+  | "subtitlePosition"
+  | "highlightColor"
+  | "textColor"
+  | "outlineColor"
+  | "subtitleOutline"
+  | "subtitleMarginH"
+  | "subtitleMarginV"
+>;
+
+const writeKaraokeAss = (
+  outputDir: string,
+  segments: SubtitleSegment[],
   clipStartTime: number,
-  maxSegmentChars: number
+  maxLineLength: number,
+  args: KaraokeStyleArgs,
+  fallbackPreset: AssPreset
 ): string => {
-  let srtContent = "";
-  let subtitleIndex = 1;
-
-  const constrainedSegments = splitSegmentsByMaxChars(segments, maxSegmentChars);
-
-  for (const segment of constrainedSegments) {
-    const adjustedStart = Math.max(0, segment.startTime - clipStartTime);
-    const adjustedEnd = Math.max(0, segment.endTime - clipStartTime);
-    if (adjustedEnd <= adjustedStart) continue;
-
-    srtContent += `${subtitleIndex}\n`;
-    srtContent += `${formatTimestamp(adjustedStart)} --> ${formatTimestamp(adjustedEnd)}\n`;
-    srtContent += `${wrapSubtitleText(segment.text, maxSegmentChars)}\n\n`;
-    subtitleIndex += 1;
-  }
-
-  return srtContent;
+  const style = resolveAssStyle(args.subtitlePreset ?? fallbackPreset, {
+    fontName: args.subtitleFont,
+    fontSize: args.subtitleFontSize,
+    position: args.subtitlePosition,
+    highlightColor: args.highlightColor,
+    textColor: args.textColor,
+    outlineColor: args.outlineColor,
+    outline: args.subtitleOutline,
+    marginH: args.subtitleMarginH,
+    marginV: args.subtitleMarginV,
+  });
+  const assPath = resolve(outputDir, "subtitles.ass");
+  writeFileSync(
+    assPath,
+    generateKaraokeAss(segments, { style, maxLineLength, maxLines: 2, offset: -clipStartTime }),
+    "utf-8"
+  );
+  logger.info({ path: assPath, segments: segments.length }, "Generated karaoke ASS");
+  return assPath;
 };
 
+// Burned-in subtitles show one line at a time, timed exactly like the speech.
+const generateClipSrt = (
+  segments: SubtitleSegment[],
+  clipStartTime: number,
+  maxLineLength: number
+): string =>
+  generateSrt(
+    buildSubtitleCues(segments, {
+      maxLineLength,
+      maxLines: 1,
+      minDuration: 0,
+      maxDuration: Infinity,
+      offset: -clipStartTime,
+    })
+  );
+
 export const createYoutubeHighlightClip = async (
   client: DagloApiClient,
   args: CreateYoutubeHighlightClipArgs
@@ -459,18 +280,12 @@ export const createYoutubeHighlightClip = async (
       const boardUrl = buildUrl(client.baseUrl, `/boards/${args.boardId}`);
       const boardResponse = await client.request(boardUrl);
       if (!boardResponse.ok) {
-        throw new Error(`Failed to fetch board: ${boardResponse.statusText}`);
+        throw await toApiError(boardResponse, "Failed to fetch board");
       }
-      const boardData = (await parseResponseBody(boardResponse)) as {
-        fileMetaId?: string;
-        keywords?: string[];
-        fileMeta?: Array<{ id?: string }>;
-      };
-      fileMetaId =
-        boardData.fileMetaId ||
-        (Array.isArray(boardData.fileMeta) ? boardData.fileMeta[0]?.id : undefined);
-      if (!keywords.length && boardData.keywords) {
-        keywords = normalizeKeywords(boardData.keywords);
+      const boardData = parseBoardDetail(await parseResponseBody(boardResponse));
+      fileMetaId = boardData.fileMetaId;
+      if (!keywords.length) {
+        keywords = boardData.keywords;
       }
     }
 
@@ -485,10 +300,12 @@ export const createYoutubeHighlightClip = async (
       );
       const keywordsResponse = await client.request(keywordsUrl);
       if (keywordsResponse.ok) {
-        const keywordsData = (await parseResponseBody(keywordsResponse)) as {
-          keywords?: string[];
-        };
-        keywords = normalizeKeywords(keywordsData?.keywords);
+        keywords =
+          validateResponse(
+            keywordsResponseSchema,
+            await parseResponseBody(keywordsResponse),
+            "keywords"
+          ) ?? [];
       }
     }
 
@@ -496,43 +313,8 @@ export const createYoutubeHighlightClip = async (
       keywords = ["AI", "엔비디아", "오라클", "결론", "미국장", "시장", "금리"];
     }
 
-    const scripts: Record<string, unknown>[] = [];
-    const scriptUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
-      limit: 60,
-      page: 0,
-    });
-    const scriptResponse = await client.request(scriptUrl);
-    if (!scriptResponse.ok) {
-      throw new Error(`Failed to fetch script: ${scriptResponse.statusText}`);
-    }
-
-    const scriptPayload = (await parseResponseBody(scriptResponse)) as {
-      item?: string;
-      meta?: { totalPages?: number };
-    };
-    const firstScript = decodeScriptItem(scriptPayload?.item);
-    if (firstScript) {
-      scripts.push(firstScript);
-    }
-
-    const totalPages = scriptPayload?.meta?.totalPages ?? 1;
-    for (let page = 1; page < totalPages; page += 1) {
-      const pageUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
-        limit: 60,
-        page,
-      });
-      const pageResponse = await client.request(pageUrl);
-      if (!pageResponse.ok) {
-        throw new Error(`Failed to fetch script page ${page}: ${pageResponse.statusText}`);
-      }
-      const pagePayload = (await parseResponseBody(pageResponse)) as { item?: string };
-      const pageScript = decodeScriptItem(pagePayload?.item);
-      if (pageScript) {
-        scripts.push(pageScript);
-      }
-    }
-
-    const segments = scripts.flatMap((script) => extractSegmentsFromScript(script));
+    const transcript = await fetchScriptTranscript(client, fileMetaId);
+    const segments = listSentences(transcript);
     if (segments.length === 0) {
       throw new Error("No segments found in script.");
     }
@@ -554,25 +336,8 @@ export const createYoutubeHighlightClip = async (
       throw new Error(`Video download failed: ${videoPath} does not exist`);
     }
 
-    const durationOutput = execSync(
-      `ffprobe -v error -show_entries format=duration -of default=nw=1:nk=1 "${videoPath}"`
-    )
-      .toString()
-      .trim();
-    const videoDuration = Number.parseFloat(durationOutput);
-    const maxSegmentEnd = segments.reduce(
-      (max, segment) => Math.max(max, segment.endTime),
-      0
-    );
-    const scaleNeeded =
-      Number.isFinite(videoDuration) &&
-      maxSegmentEnd > Math.max(videoDuration * 10, 10000)
-        ? 0.001
-        : 1;
-    const scaledSegmentsAll = applyTimeScale(segments, scaleNeeded);
-
     const { segments: selectedSegments, startTime, endTime } = selectHighlightSegments(
-      scaledSegmentsAll,
+      segments,
       clipLengthMinutes,
       keywords
     );
@@ -599,7 +364,7 @@ export const createYoutubeHighlightClip = async (
       throw new Error(`Clip generation failed: ${clipPath} does not exist`);
     }
 
-    const srtContent = generateSrt(
+    const srtContent = generateClipSrt(
       selectedSegments,
       scaledStartTime,
       subtitleMaxLineLength
@@ -609,14 +374,23 @@ export const createYoutubeHighlightClip = async (
     writeFileSync(srtPath, srtContent, "utf-8");
     logger.info({ path: srtPath, segments: selectedSegments.length }, "Generated SRT");
 
+    const assPath = args.karaoke
+      ? writeKaraokeAss(
+          outputDir,
+          selectedSegments,
+          scaledStartTime,
+          subtitleMaxLineLength,
+          args,
+          shortsMode ? "shorts" : "default"
+        )
+      : undefined;
+
     const finalFilename = "clip_with_subs.mp4";
     const finalPath = resolve(outputDir, finalFilename);
     logger.info({ path: finalPath }, "Burning subtitles into clip");
-    const normalizedSrtPath = srtPath
-      .replace(/\\/g, "/")
-      .replace(/:/g, "\\:")
-      .replace(/'/g, "\\'");
-    const subtitlesFilter = `subtitles='${normalizedSrtPath}'`;
+    const subtitlesFilter = assPath
+      ? `ass='${toFilterPath(assPath)}'`
+      : `subtitles='${toFilterPath(srtPath)}'`;
     const shortsFilter =
       "crop=ih*9/16:ih:(iw-ih*9/16)/2:0,scale=1080:1920";
     const videoFilter = shortsMode
@@ -637,13 +411,15 @@ export const createYoutubeHighlightClip = async (
       videoPath,
       clipPath,
       srtPath,
+      assPath,
       finalPath,
       clipStartTime: scaledStartTime,
       clipEndTime: scaledEndTime,
       clipDuration,
       segmentCount: selectedSegments.length,
       keywords,
-      timeScale: scaleNeeded,
+      timeUnit: transcript.timeUnit,
+      timeScale: transcript.timeUnit === "milliseconds" ? 0.001 : 1,
       shortsMode,
       subtitleMaxLineLength,
     };
@@ -674,58 +450,18 @@ export const createYoutubeFullSubtitledVideo = async (
       const boardUrl = buildUrl(client.baseUrl, `/boards/${args.boardId}`);
       const boardResponse = await client.request(boardUrl);
       if (!boardResponse.ok) {
-        throw new Error(`Failed to fetch board: ${boardResponse.statusText}`);
+        throw await toApiError(boardResponse, "Failed to fetch board");
       }
-      const boardData = (await parseResponseBody(boardResponse)) as {
-        fileMetaId?: string;
-        fileMeta?: Array<{ id?: string }>;
-      };
-      fileMetaId =
-        boardData.fileMetaId ||
-        (Array.isArray(boardData.fileMeta) ? boardData.fileMeta[0]?.id : undefined);
+      const boardData = parseBoardDetail(await parseResponseBody(boardResponse));
+      fileMetaId = boardData.fileMetaId;
     }
 
     if (!fileMetaId) {
       throw new Error("Could not determine fileMetaId from boardId.");
     }
 
-    const scripts: Record<string, unknown>[] = [];
-    const scriptUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
-      limit: 60,
-      page: 0,
-    });
-    const scriptResponse = await client.request(scriptUrl);
-    if (!scriptResponse.ok) {
-      throw new Error(`Failed to fetch script: ${scriptResponse.statusText}`);
-    }
-
-    const scriptPayload = (await parseResponseBody(scriptResponse)) as {
-      item?: string;
-      meta?: { totalPages?: number };
-    };
-    const firstScript = decodeScriptItem(scriptPayload?.item);
-    if (firstScript) {
-      scripts.push(firstScript);
-    }
-
-    const totalPages = scriptPayload?.meta?.totalPages ?? 1;
-    for (let page = 1; page < totalPages; page += 1) {
-      const pageUrl = buildUrl(client.baseUrl, `/file-meta/${fileMetaId}/script`, {
-        limit: 60,
-        page,
-      });
-      const pageResponse = await client.request(pageUrl);
-      if (!pageResponse.ok) {
-        throw new Error(`Failed to fetch script page ${page}: ${pageResponse.statusText}`);
-      }
-      const pagePayload = (await parseResponseBody(pageResponse)) as { item?: string };
-      const pageScript = decodeScriptItem(pagePayload?.item);
-      if (pageScript) {
-        scripts.push(pageScript);
-      }
-    }
-
-    const segments = scripts.flatMap((script) => extractSegmentsFromScript(script));
+    const transcript = await fetchScriptTranscript(client, fileMetaId);
+    const segments = listSentences(transcript);
     if (segments.length === 0) {
       throw new Error("No segments found in script.");
     }
@@ -747,35 +483,24 @@ export const createYoutubeFullSubtitledVideo = async (
       throw new Error(`Video download failed: ${videoPath} does not exist`);
     }
 
-    const durationOutput = execSync(
-      `ffprobe -v error -show_entries format=duration -of default=nw=1:nk=1 "${videoPath}"`
-    )
-      .toString()
-      .trim();
-    const videoDuration = Number.parseFloat(durationOutput);
-    const maxSegmentEnd = segments.reduce(
-      (max, segment) => Math.max(max, segment.endTime),
-      0
-    );
-    const scaleNeeded =
-      Number.isFinite(videoDuration) &&
-      maxSegmentEnd > Math.max(videoDuration * 10, 10000)
-        ? 0.001
-        : 1;
-    const scaledSegmentsAll = applyTimeScale(segments, scaleNeeded);
-
-    const srtContent = generateSrt(scaledSegmentsAll, 0, subtitleMaxLineLength);
+    const srtContent = generateClipSrt(segments, 0, subtitleMaxLineLength);
     const srtFilename = "subtitles.srt";
     const srtPath = resolve(outputDir, srtFilename);
     writeFileSync(srtPath, srtContent, "utf-8");
-    logger.info({ path: srtPath, segments: scaledSegmentsAll.length }, "Generated SRT");
+    logger.info({ path: srtPath, segments: segments.length }, "Generated SRT");
+
+    const assPath = args.karaoke
+      ? writeKaraokeAss(outputDir, segments, 0, subtitleMaxLineLength, args, "default")
+      : undefined;
 
     const finalFilename = "video_with_subs.mp4";
     const finalPath = resolve(outputDir, finalFilename);
     logger.info({ path: finalPath }, "Burning subtitles into full video");
-    const normalizedSrtPath = srtPath.replace(/\\/g, "/").replace(/:/g, "\\:").replace(/'/g, "\\'");
+    const subtitlesFilter = assPath
+      ? `ass='${toFilterPath(assPath)}'`
+      : `subtitles='${toFilterPath(srtPath)}'`;
     execSync(
-      `ffmpeg -y -i "${videoPath}" -vf "subtitles='${normalizedSrtPath}'" -c:a copy "${finalPath}"`,
+      `ffmpeg -y -i "${videoPath}" -vf "${subtitlesFilter}" -c:a copy "${finalPath}"`,
       { stdio: "inherit" }
     );
 
@@ -788,9 +513,11 @@ export const createYoutubeFullSubtitledVideo = async (
       outputDir,
       videoPath,
       srtPath,
+      assPath,
       finalPath,
-      segmentCount: scaledSegmentsAll.length,
-      timeScale: scaleNeeded,
+      segmentCount: segments.length,
+      timeUnit: transcript.timeUnit,
+      timeScale: transcript.timeUnit === "milliseconds" ? 0.001 : 1,
       subtitleMaxLineLength,
     };
   } catch (error) {
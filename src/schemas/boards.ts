@@ -128,6 +128,43 @@ export const updateBoardNameSchema = z.object({
 
 export type UpdateBoardNameArgs = z.infer<typeof updateBoardNameSchema>;
 
+export const moveBoardSchema = z.object({
+  boardId: z.string().describe("Board ID to move"),
+  folderId: z.string().min(1).describe("Destination folder ID"),
+});
+
+export type MoveBoardArgs = z.infer<typeof moveBoardSchema>;
+
+export const setBoardStarredSchema = z.object({
+  boardId: z.string().describe("Board ID to star or unstar"),
+  isStarred: z.boolean().describe("Whether the board should be starred"),
+});
+
+export type SetBoardStarredArgs = z.infer<typeof setBoardStarredSchema>;
+
+export const boardLifecycleSchema = z.object({
+  boardId: z.string().describe("Board ID to delete, restore or purge"),
+});
+
+export type BoardLifecycleArgs = z.infer<typeof boardLifecycleSchema>;
+
+export const downloadBoardMediaSchema = z.object({
+  boardId: z.string().describe("Board ID whose media to download"),
+  outputDir: z.string().optional().describe("Directory to save the file in (default: .)"),
+  filename: z
+    .string()
+    .optional()
+    .describe("Base filename without extension (default: board name)"),
+  force: z.boolean().optional().describe("Download again even if the file exists"),
+  sha256: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/i, "must be a 64-character hex SHA-256 digest")
+    .optional()
+    .describe("Expected SHA-256 of the file"),
+});
+
+export type DownloadBoardMediaArgs = z.infer<typeof downloadBoardMediaSchema>;
+
 export const getLatestBoardContentSchema = z.object({
   limit: z
     .number()
@@ -143,8 +180,10 @@ export type GetLatestBoardContentArgs = z.infer<typeof getLatestBoardContentSche
 
 export const exportBoardContentSchema = z.object({
   format: z
-    .enum(["punctuation-json", "text"])
-    .describe("Output format (punctuation-json or text)"),
+    .enum(["punctuation-json", "text", "srt", "vtt", "ttml", "lrc", "words-json"])
+    .describe(
+      "Output format (punctuation-json, text, srt/vtt/ttml subtitles, enhanced lrc, or words-json word timings)"
+    ),
   outputPath: z.string().optional().describe("Optional output file path"),
   boardId: z.string().optional().describe("Board ID to export (default: latest board)"),
   fileMetaId: z.string().optional().describe("File metadata ID (optional)"),
@@ -152,6 +191,147 @@ export const exportBoardContentSchema = z.object({
     .number()
     .optional()
     .describe("Number of boards to inspect (default: 50)"),
+  maxLineLength: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Subtitle or lyrics characters per line (default: 42)"),
+  maxLines: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Subtitle lines per cue (default: 2)"),
+  minDuration: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Minimum seconds a subtitle cue stays up (default: 1)"),
+  maxDuration: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Maximum seconds a subtitle cue stays up (default: 7)"),
+  offset: z
+    .number()
+    .optional()
+    .describe("Seconds added to every subtitle or lyrics timestamp, may be negative (default: 0)"),
+  language: z
+    .string()
+    .regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/, "Use a language tag such as ko or en-US")
+    .optional()
+    .describe("TTML xml:lang language tag (default: detected from the script)"),
 });
 
 export type ExportBoardContentArgs = z.infer<typeof exportBoardContentSchema>;
+
+// Response schemas. The v1 (`/boards/:id`) and v2 (`/v2/boards`) endpoints
+// disagree on field names; both are mapped onto `NormalizedBoard`.
+
+const timestampSchema = z
+  .union([z.string(), z.number()])
+  .transform((value) =>
+    typeof value === "number" ? new Date(value).toISOString() : value
+  );
+
+export const keywordListSchema = z.array(
+  z
+    .union([z.string(), z.object({ keyword: z.string() }).passthrough()])
+    .transform((entry) => (typeof entry === "string" ? entry : entry.keyword))
+);
+
+export const segmentSchema = z
+  .object({
+    startTime: z.number(),
+    endTime: z.number(),
+    text: z.string(),
+    speaker: z.string().nullish(),
+  })
+  .passthrough()
+  .transform((segment) => ({
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    text: segment.text,
+    speaker: segment.speaker ?? undefined,
+  }));
+
+export type Segment = z.output<typeof segmentSchema>;
+
+export const boardFieldsSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullish(),
+    status: z.string().nullish(),
+    type: z.string().nullish(),
+    createdAt: timestampSchema.nullish(),
+    createTime: timestampSchema.nullish(),
+    updatedAt: timestampSchema.nullish(),
+    updateTime: timestampSchema.nullish(),
+    deletedAt: timestampSchema.nullish(),
+    deleteTime: timestampSchema.nullish(),
+    isStarred: z.boolean().nullish(),
+    folderId: z.string().nullish(),
+    fileMetaId: z.string().nullish(),
+    fileMeta: z.array(z.object({ id: z.string().nullish() }).passthrough()).nullish(),
+    duration: z.number().nullish(),
+    content: z.string().nullish(),
+    summary: z.string().nullish(),
+    aiSummary: z.string().nullish(),
+    keywords: keywordListSchema.nullish(),
+    segments: z.array(segmentSchema).nullish(),
+    fileUrl: z.string().nullish(),
+    sourceUrl: z.string().nullish(),
+    youtubeUrl: z.string().nullish(),
+    shareUrl: z.string().nullish(),
+    sharedUrl: z.string().nullish(),
+  })
+  .passthrough();
+
+export const boardResponseSchema = boardFieldsSchema.transform((raw) => ({
+  id: raw.id,
+  name: raw.name ?? "",
+  status: raw.status ?? undefined,
+  type: raw.type ?? undefined,
+  createdAt: raw.createdAt ?? raw.createTime ?? undefined,
+  updatedAt: raw.updatedAt ?? raw.updateTime ?? undefined,
+  deletedAt: raw.deletedAt ?? raw.deleteTime ?? undefined,
+  isStarred: raw.isStarred ?? false,
+  folderId: raw.folderId ?? undefined,
+  fileMetaId: raw.fileMetaId ?? raw.fileMeta?.[0]?.id ?? undefined,
+  duration: raw.duration ?? undefined,
+  content: raw.content ?? undefined,
+  summary: raw.summary ?? undefined,
+  aiSummary: raw.aiSummary ?? undefined,
+  keywords: raw.keywords ?? [],
+  segments: raw.segments ?? [],
+  fileUrl: raw.fileUrl ?? undefined,
+  sourceUrl: raw.sourceUrl ?? raw.youtubeUrl ?? undefined,
+  shareUrl: raw.shareUrl ?? raw.sharedUrl ?? undefined,
+}));
+
+export type NormalizedBoard = z.output<typeof boardResponseSchema>;
+
+export const boardListMetaSchema = z
+  .object({
+    page: z.number().nullish(),
+    totalPages: z.number().nullish(),
+    totalCount: z.number().nullish(),
+    nextPage: z.number().nullish(),
+  })
+  .passthrough();
+
+// Entries stay unknown here so one malformed board can be skipped on its own.
+export const boardListResponseSchema = z.union([
+  z.array(z.unknown()).transform((items) => ({ items, meta: null })),
+  z
+    .object({ items: z.array(z.unknown()), meta: boardListMetaSchema.nullish() })
+    .passthrough()
+    .transform((data) => ({ items: data.items, meta: data.meta ?? null })),
+  z
+    .object({ boards: z.array(z.unknown()), meta: boardListMetaSchema.nullish() })
+    .passthrough()
+    .transform((data) => ({ items: data.boards, meta: data.meta ?? null })),
+]);
+
+export type BoardListMeta = z.output<typeof boardListMetaSchema>;
@@ -0,0 +1,33 @@
+import * as z from "zod";
+
+export const exportBoardsSchema = z.object({
+  target: z.string().describe("Export target, e.g. obsidian, logseq, notion, markdown"),
+  boardIds: z.array(z.string()).optional().describe("Board IDs to export"),
+  folderId: z
+    .string()
+    .optional()
+    .describe("Export the boards of this folder when no board IDs are given"),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Export every board of the account when no board IDs or folder are given"),
+  outputDir: z
+    .string()
+    .optional()
+    .describe("Output directory (default: ./export)"),
+  limit: z.number().optional().describe("Max boards to export (default: all)"),
+  templateDir: z
+    .string()
+    .optional()
+    .describe("Directory with original.md / summary.md note templates (obsidian target)"),
+  filenamePattern: z
+    .string()
+    .optional()
+    .describe("Filename pattern using {date} {time} {name} {id} {folder}"),
+  timezone: z
+    .string()
+    .optional()
+    .describe("IANA timezone for dates in filenames and documents"),
+});
+
+export type ExportBoardsArgs = z.infer<typeof exportBoardsSchema>;
@@ -1,4 +1,5 @@
 import * as z from "zod";
+import { keywordListSchema, segmentSchema } from "./boards.js";
 
 export const getFileMetaSchema = z.object({
   fileMetaId: z.string().describe("File metadata ID"),
@@ -11,3 +12,37 @@ export const getKeywordsSchema = z.object({
 
 export type GetFileMetaArgs = z.infer<typeof getFileMetaSchema>;
 export type GetKeywordsArgs = z.infer<typeof getKeywordsSchema>;
+
+// Response schemas for the /file-meta/:id/* endpoints.
+
+export const keywordsResponseSchema = z.union([
+  keywordListSchema,
+  z
+    .object({ keywords: keywordListSchema })
+    .passthrough()
+    .transform((data) => data.keywords),
+]);
+
+export const segmentSummaryResponseSchema = z.union([
+  z.array(segmentSchema),
+  z
+    .object({ segments: z.array(segmentSchema) })
+    .passthrough()
+    .transform((data) => data.segments),
+]);
+
+export const summaryResponseSchema = z.union([
+  z.string(),
+  z
+    .object({ summary: z.string().nullish() })
+    .passthrough()
+    .transform((data) => data.summary ?? undefined),
+]);
+
+export const longSummaryResponseSchema = z.union([
+  z.string(),
+  z
+    .object({ longSummary: z.string().nullish() })
+    .passthrough()
+    .transform((data) => data.longSummary ?? undefined),
+]);
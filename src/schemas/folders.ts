@@ -8,3 +8,66 @@ export const getFoldersSchema = z.object({
 });
 
 export type GetFoldersArgs = z.infer<typeof getFoldersSchema>;
+
+export const createFolderSchema = z.object({
+  name: z.string().min(1).describe("Folder name"),
+  parentId: z.string().optional().describe("Parent folder ID (default: root)"),
+});
+
+export type CreateFolderArgs = z.infer<typeof createFolderSchema>;
+
+export const renameFolderSchema = z.object({
+  folderId: z.string().describe("Folder ID to rename"),
+  name: z.string().min(1).describe("New folder name"),
+});
+
+export type RenameFolderArgs = z.infer<typeof renameFolderSchema>;
+
+export const moveFolderSchema = z.object({
+  folderId: z.string().describe("Folder ID to move"),
+  parentId: z.string().min(1).describe("New parent folder ID"),
+});
+
+export type MoveFolderArgs = z.infer<typeof moveFolderSchema>;
+
+export const deleteFolderSchema = z.object({
+  folderId: z.string().describe("Folder ID to delete"),
+});
+
+export type DeleteFolderArgs = z.infer<typeof deleteFolderSchema>;
+
+// Response schemas.
+
+export const folderResponseSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullish(),
+    parentId: z.string().nullish(),
+    createdAt: z.string().nullish(),
+    createTime: z.string().nullish(),
+    isRoot: z.boolean().nullish(),
+    boardCount: z.number().nullish(),
+  })
+  .passthrough()
+  .transform((raw) => ({
+    id: raw.id,
+    name: raw.name ?? "",
+    parentId: raw.parentId ?? undefined,
+    createdAt: raw.createdAt ?? raw.createTime ?? undefined,
+    isRoot: raw.isRoot ?? false,
+    boardCount: raw.boardCount ?? undefined,
+  }));
+
+export type NormalizedFolder = z.output<typeof folderResponseSchema>;
+
+export const folderListResponseSchema = z.union([
+  z.array(z.unknown()),
+  z
+    .object({ items: z.array(z.unknown()) })
+    .passthrough()
+    .transform((data) => data.items),
+  z
+    .object({ folders: z.array(z.unknown()) })
+    .passthrough()
+    .transform((data) => data.folders),
+]);
@@ -1,5 +1,25 @@
 import * as z from "zod";
 
+// Daily-note links and MOCs, shared by every command that writes notes into a vault.
+const vaultIndexFields = {
+  dailyNotes: z
+    .boolean()
+    .optional()
+    .describe("Link exported notes from YYYY-MM-DD daily notes"),
+  dailyNotesFolder: z
+    .string()
+    .optional()
+    .describe("Vault folder holding daily notes (default: the vault's daily notes setting)"),
+  dailyNotesHeading: z
+    .string()
+    .optional()
+    .describe("Daily note heading the links go under (default: Daglo)"),
+  moc: z
+    .boolean()
+    .optional()
+    .describe("Write a Map-of-Content index note per folder and per keyword"),
+};
+
 export const exportToObsidianSchema = z.object({
   boardId: z.string().describe("Board ID to export"),
   fileMetaId: z.string().optional().describe("File metadata ID"),
@@ -12,6 +32,31 @@ export const exportToObsidianSchema = z.object({
     .string()
     .optional()
     .describe("Output directory (default: ./docs)"),
+  templateDir: z
+    .string()
+    .optional()
+    .describe("Directory with original.md / summary.md note templates"),
+  filenamePattern: z
+    .string()
+    .optional()
+    .describe("Note filename pattern using {date} {time} {name} {id} {folder}"),
+  timezone: z
+    .string()
+    .optional()
+    .describe("IANA timezone for dates in filenames and frontmatter"),
+  withMedia: z
+    .boolean()
+    .optional()
+    .describe("Download the board's media into the attachments folder and embed it"),
+  canvas: z
+    .boolean()
+    .optional()
+    .describe("Also write an Obsidian .canvas mind map of the segment summaries"),
+  mindmap: z
+    .boolean()
+    .optional()
+    .describe("Embed a Mermaid mindmap of the segment summaries in the summary note"),
+  ...vaultIndexFields,
   includeContent: z.boolean().optional().default(true),
   includeSummary: z.boolean().optional().default(true),
   includeKeywords: z.boolean().optional().default(true),
@@ -21,7 +66,14 @@ export const exportToObsidianSchema = z.object({
 export type ExportToObsidianArgs = z.infer<typeof exportToObsidianSchema>;
 
 export const batchExportFolderSchema = z.object({
-  folderId: z.string().describe("Folder ID to export"),
+  folderId: z
+    .string()
+    .optional()
+    .describe("Folder ID to export (default: the whole account, recursively)"),
+  recursive: z
+    .boolean()
+    .optional()
+    .describe("Also export child folders into mirrored subdirectories"),
   outputDir: z
     .string()
     .optional()
@@ -31,11 +83,73 @@ export const batchExportFolderSchema = z.object({
     .optional()
     .default("both")
     .describe("Output type"),
+  templateDir: z
+    .string()
+    .optional()
+    .describe("Directory with original.md / summary.md note templates"),
+  filenamePattern: z
+    .string()
+    .optional()
+    .describe("Note filename pattern using {date} {time} {name} {id} {folder}"),
+  timezone: z
+    .string()
+    .optional()
+    .describe("IANA timezone for dates in filenames and frontmatter"),
   limit: z
     .number()
     .optional()
-    .default(50)
-    .describe("Max boards to export"),
+    .describe("Max boards to export (default: all boards in the folder)"),
+  ...vaultIndexFields,
 });
 
 export type BatchExportFolderArgs = z.infer<typeof batchExportFolderSchema>;
+
+export const syncObsidianSchema = z.object({
+  folderId: z
+    .string()
+    .optional()
+    .describe("Folder ID to sync, including child folders (default: all folders)"),
+  outputDir: z
+    .string()
+    .optional()
+    .describe("Vault directory holding the sync manifest (default: ./docs)"),
+  outputType: z
+    .enum(["original", "summary", "both"])
+    .optional()
+    .default("both")
+    .describe("Output type"),
+  templateDir: z
+    .string()
+    .optional()
+    .describe("Directory with original.md / summary.md note templates"),
+  filenamePattern: z
+    .string()
+    .optional()
+    .describe("Note filename pattern using {date} {time} {name} {id} {folder}"),
+  timezone: z
+    .string()
+    .optional()
+    .describe("IANA timezone for dates in filenames and frontmatter"),
+  prune: z
+    .boolean()
+    .optional()
+    .describe("Delete notes for boards that were deleted in Daglo"),
+  force: z
+    .boolean()
+    .optional()
+    .describe("Re-fetch every board even if its listing is unchanged"),
+  ...vaultIndexFields,
+});
+
+export type SyncObsidianArgs = z.infer<typeof syncObsidianSchema>;
+
+export const obsidianConfigSchema = z.object({
+  templateDir: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  filenamePattern: z.string().optional(),
+  timezone: z.string().optional(),
+  dailyNotesFolder: z.string().optional(),
+  dailyNotesHeading: z.string().optional(),
+});
+
+export type ObsidianConfig = z.infer<typeof obsidianConfigSchema>;
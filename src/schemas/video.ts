@@ -1,5 +1,57 @@
 import * as z from "zod";
 
+const karaokeSubtitleOptions = {
+  karaoke: z
+    .boolean()
+    .optional()
+    .describe("Burn word-by-word karaoke ASS subtitles instead of plain SRT lines"),
+  subtitlePreset: z
+    .enum(["default", "shorts", "minimal"])
+    .optional()
+    .describe("Karaoke style preset (default: shorts in shorts mode, otherwise default)"),
+  subtitleFont: z
+    .string()
+    .optional()
+    .describe("Karaoke font family (default: a Noto CJK font matching the transcript)"),
+  subtitleFontSize: z.number().positive().optional().describe("Karaoke font size"),
+  subtitlePosition: z
+    .enum(["bottom", "middle", "top"])
+    .optional()
+    .describe("Vertical position of karaoke subtitles"),
+  highlightColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional()
+    .describe("Karaoke colour of spoken words as #RRGGBB"),
+  textColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional()
+    .describe("Karaoke colour of words not yet spoken as #RRGGBB"),
+  outlineColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional()
+    .describe("Karaoke outline colour as #RRGGBB"),
+  subtitleOutline: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe("Karaoke outline width in script pixels"),
+  subtitleMarginH: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Karaoke left and right margin in script pixels"),
+  subtitleMarginV: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Karaoke margin from the top or bottom edge in script pixels"),
+};
+
 export const createYoutubeHighlightClipSchema = z.object({
   youtubeUrl: z.string().describe("YouTube video URL to download"),
   boardId: z.string().optional().describe("Board ID to fetch transcript from"),
@@ -27,6 +79,7 @@ export const createYoutubeHighlightClipSchema = z.object({
     .array(z.string())
     .optional()
     .describe("Keywords to identify highlight segments (default: from board keywords)"),
+  ...karaokeSubtitleOptions,
 });
 
 export type CreateYoutubeHighlightClipArgs = z.infer<typeof createYoutubeHighlightClipSchema>;
@@ -46,6 +99,7 @@ export const createYoutubeFullSubtitledVideoSchema = z.object({
     .number()
     .optional()
     .describe("Max characters per subtitle segment (default: 42)"),
+  ...karaokeSubtitleOptions,
 });
 
 export type CreateYoutubeFullSubtitledVideoArgs = z.infer<
@@ -0,0 +1,63 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export const MANIFEST_FILE_NAME = ".daglo-sync.json";
+const MANIFEST_VERSION = 1;
+
+export interface SyncManifestEntry {
+  name: string;
+  updatedAt?: string;
+  /** Note filename without extension, from the filename pattern. */
+  baseName?: string;
+  contentHash: string;
+  /** Export directory relative to the vault (`""` for the vault root). */
+  dir: string;
+  /** Generated files, relative to the vault with `/` separators. */
+  files: string[];
+  /** Hash of each generated file as written, to tell whether it was edited since. */
+  fileHashes?: Record<string, string>;
+  outputType?: string;
+  /** Hash of the templates and note settings the files were rendered with. */
+  settingsHash?: string;
+}
+
+export interface SyncManifest {
+  version: number;
+  syncedAt?: string;
+  boards: Record<string, SyncManifestEntry>;
+}
+
+export const getManifestPath = (vaultDir: string): string =>
+  join(vaultDir, MANIFEST_FILE_NAME);
+
+export const loadManifest = (vaultDir: string): SyncManifest => {
+  const path = getManifestPath(vaultDir);
+  if (!existsSync(path)) return { version: MANIFEST_VERSION, boards: {} };
+
+  const data = JSON.parse(readFileSync(path, "utf-8")) as Partial<SyncManifest>;
+  if (data.version !== MANIFEST_VERSION || typeof data.boards !== "object") {
+    throw new Error(
+      `Unsupported sync manifest at ${path}; delete it to run a full export.`
+    );
+  }
+  return { version: MANIFEST_VERSION, syncedAt: data.syncedAt, boards: data.boards };
+};
+
+export const saveManifest = (vaultDir: string, manifest: SyncManifest): void => {
+  const path = getManifestPath(vaultDir);
+  const tmpPath = `${path}.tmp.${process.pid}`;
+  writeFileSync(tmpPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+  renameSync(tmpPath, path);
+};
+
+export const hashContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+export const hashNotes = (notes: Array<{ path: string; content: string }>): string => {
+  const hash = createHash("sha256");
+  for (const note of notes) {
+    hash.update(note.path).update("\0").update(note.content).update("\0");
+  }
+  return hash.digest("hex");
+};
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildKaraokeText,
+  formatAssTimestamp,
+  generateKaraokeAss,
+  resolveAssStyle,
+  selectSubtitleFont,
+  toAssColor,
+} from "./ass.js";
+
+const token = (text: string, startTime: number, endTime: number) => ({
+  text,
+  startTime,
+  endTime,
+});
+
+describe("buildKaraokeText", () => {
+  it("times each word in centiseconds and fills silences with empty tags", () => {
+    expect(
+      buildKaraokeText([token("Hello", 1, 1.4), token(" big", 1.4, 1.6), token(" world", 2, 2.5)], 1, 42)
+    ).toBe("{\\k40}Hello{\\k20} big{\\k40}{\\k50} world");
+  });
+
+  it("breaks lines before the word that would overflow", () => {
+    expect(buildKaraokeText([token("one", 0, 1), token(" two", 1, 2)], 0, 5)).toBe(
+      "{\\k100}one\\N{\\k100}two"
+    );
+  });
+
+  it("keeps override characters out of the text", () => {
+    expect(buildKaraokeText([token("{a}\\b", 0, 0.1)], 0, 42)).toBe("{\\k10}(a)/b");
+  });
+});
+
+describe("ASS helpers", () => {
+  it("formats timestamps and colours the ASS way", () => {
+    expect(formatAssTimestamp(3661.256)).toBe("1:01:01.26");
+    expect(toAssColor("#FFD400")).toBe("&H0000D4FF");
+    expect(() => toAssColor("yellow")).toThrow('Invalid colour "yellow"');
+  });
+
+  it("picks a CJK font for the transcript's script", () => {
+    expect(selectSubtitleFont("안녕하세요 world")).toBe("Noto Sans CJK KR");
+    expect(selectSubtitleFont("こんにちは")).toBe("Noto Sans CJK JP");
+    expect(selectSubtitleFont("你好")).toBe("Noto Sans CJK SC");
+    expect(selectSubtitleFont("Hello")).toBe("Arial");
+  });
+
+  it("applies only the overrides that are set", () => {
+    const style = resolveAssStyle("shorts", { fontSize: 90, fontName: undefined });
+    expect(style).toMatchObject({ fontSize: 90, marginV: 480, height: 1920 });
+    expect(style.fontName).toBeUndefined();
+  });
+});
+
+describe("generateKaraokeAss", () => {
+  it("writes a script with the preset style and shifted dialogue lines", () => {
+    const ass = generateKaraokeAss(
+      [
+        { text: "Skipped.", startTime: 1, endTime: 2, tokens: [token("Skipped.", 1, 2)] },
+        {
+          text: "안녕 하세요.",
+          startTime: 10,
+          endTime: 11,
+          tokens: [token("안녕", 10, 10.5), token(" 하세요.", 10.5, 11)],
+        },
+      ],
+      {
+        style: resolveAssStyle("default", { position: "top" }),
+        maxLineLength: 42,
+        maxLines: 2,
+        offset: -5,
+      }
+    );
+
+    expect(ass).toContain("PlayResX: 1920\nPlayResY: 1080");
+    expect(ass).toContain(
+      "Style: Karaoke,Noto Sans CJK KR,64,&H0000D4FF,&H00FFFFFF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,4,1,8,80,80,60,1"
+    );
+    expect(ass.split("\n").filter((line) => line.startsWith("Dialogue:"))).toEqual([
+      "Dialogue: 0,0:00:05.00,0:00:06.00,Karaoke,,0,0,0,,{\\k50}안녕{\\k50} 하세요.",
+    ]);
+  });
+});
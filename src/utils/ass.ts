@@ -0,0 +1,239 @@
+import { detectScriptLanguage, splitSegmentsIntoCues, SubtitleSegment } from "./subtitles.js";
+import { TranscriptToken } from "./transcript.js";
+
+export type AssPosition = "bottom" | "middle" | "top";
+
+export interface AssStyle {
+  /** Font family; when unset, a CJK font is picked to match the transcript. */
+  fontName?: string;
+  fontSize: number;
+  /** `#RRGGBB` of words already spoken. */
+  highlightColor: string;
+  /** `#RRGGBB` of words not yet spoken. */
+  textColor: string;
+  outlineColor: string;
+  outline: number;
+  shadow: number;
+  bold: boolean;
+  position: AssPosition;
+  /** Safe-area margins in script pixels. */
+  marginH: number;
+  marginV: number;
+  /** Script resolution; libass scales it to the video. */
+  width: number;
+  height: number;
+}
+
+export type AssPreset = "default" | "shorts" | "minimal";
+
+export const ASS_PRESETS: Record<AssPreset, AssStyle> = {
+  default: {
+    fontSize: 64,
+    highlightColor: "#FFD400",
+    textColor: "#FFFFFF",
+    outlineColor: "#000000",
+    outline: 4,
+    shadow: 1,
+    bold: true,
+    position: "bottom",
+    marginH: 80,
+    marginV: 60,
+    width: 1920,
+    height: 1080,
+  },
+  // YouTube Shorts covers the bottom fifth with its own buttons and captions.
+  shorts: {
+    fontSize: 84,
+    highlightColor: "#FFD400",
+    textColor: "#FFFFFF",
+    outlineColor: "#000000",
+    outline: 6,
+    shadow: 0,
+    bold: true,
+    position: "bottom",
+    marginH: 90,
+    marginV: 480,
+    width: 1080,
+    height: 1920,
+  },
+  minimal: {
+    fontSize: 54,
+    highlightColor: "#7FDBFF",
+    textColor: "#FFFFFF",
+    outlineColor: "#000000",
+    outline: 2,
+    shadow: 0,
+    bold: false,
+    position: "bottom",
+    marginH: 80,
+    marginV: 50,
+    width: 1920,
+    height: 1080,
+  },
+};
+
+export const ASS_PRESET_NAMES = Object.keys(ASS_PRESETS) as AssPreset[];
+
+/** The preset with any overrides that are set applied on top. */
+export const resolveAssStyle = (
+  preset: AssPreset,
+  overrides: Partial<AssStyle> = {}
+): AssStyle => {
+  const style = { ...ASS_PRESETS[preset] };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) Object.assign(style, { [key]: value });
+  }
+  return style;
+};
+
+const LATIN_FONT = "Arial";
+const CJK_FONTS = { ko: "Noto Sans CJK KR", ja: "Noto Sans CJK JP", zh: "Noto Sans CJK SC" };
+
+/** A Noto CJK face for the script the text is written in, or a Latin font. */
+export const selectSubtitleFont = (text: string): string => {
+  const language = detectScriptLanguage(text);
+  return language ? CJK_FONTS[language] : LATIN_FONT;
+};
+
+// ASS colours are &HAABBGGRR with 00 meaning opaque.
+export const toAssColor = (hex: string): string => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) throw new Error(`Invalid colour "${hex}" (use #RRGGBB)`);
+  const [r, g, b] = [0, 2, 4].map((i) => match[1].slice(i, i + 2).toUpperCase());
+  return `&H00${b}${g}${r}`;
+};
+
+/** `H:MM:SS.cc` */
+export const formatAssTimestamp = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(totalCs / 360000)}:${pad(Math.floor(totalCs / 6000) % 60)}:${pad(Math.floor(totalCs / 100) % 60)}.${pad(totalCs % 100)}`;
+};
+
+// Braces start override blocks and backslashes start tags, so neither may appear in text.
+const escapeAssText = (text: string) =>
+  text.replace(/\{/g, "(").replace(/\}/g, ")").replace(/\\/g, "/");
+
+const ALIGNMENT: Record<AssPosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+/**
+ * One dialogue line of `\k` karaoke tags: each token is highlighted for
+ * its own duration, and silences between tokens get an empty tag so later
+ * words do not light up early. Lines break before tokens that would overflow.
+ */
+export const buildKaraokeText = (
+  tokens: TranscriptToken[],
+  startTime: number,
+  maxLineLength: number
+): string => {
+  let text = "";
+  let lineLength = 0;
+  let cursorCs = Math.round(startTime * 100);
+
+  for (const token of tokens) {
+    const startCs = Math.round(token.startTime * 100);
+    const endCs = Math.max(startCs, Math.round(token.endTime * 100));
+    if (startCs > cursorCs) text += `{\\k${startCs - cursorCs}}`;
+
+    let word = escapeAssText(token.text);
+    if (lineLength > 0 && lineLength + word.length > maxLineLength) {
+      text += "\\N";
+      word = word.trimStart();
+      lineLength = 0;
+    } else if (lineLength === 0) {
+      word = word.trimStart();
+    }
+
+    text += `{\\k${endCs - Math.max(startCs, cursorCs)}}${word}`;
+    lineLength += word.length;
+    cursorCs = Math.max(cursorCs, endCs);
+  }
+
+  return text;
+};
+
+export interface AssOptions {
+  style: AssStyle;
+  maxLineLength: number;
+  maxLines: number;
+  /** Seconds added to every timestamp; lines that end up before 0 are dropped. */
+  offset?: number;
+}
+
+const shiftTokens = (tokens: TranscriptToken[], offset: number) =>
+  tokens
+    .map((token) => ({
+      ...token,
+      startTime: Math.max(0, token.startTime + offset),
+      endTime: Math.max(0, token.endTime + offset),
+    }))
+    .filter((token) => token.endTime > 0);
+
+/** A complete ASS script with one karaoke dialogue line per cue. */
+export const generateKaraokeAss = (segments: SubtitleSegment[], options: AssOptions): string => {
+  const { style, maxLineLength, maxLines, offset = 0 } = options;
+  const fontName =
+    style.fontName ?? selectSubtitleFont(segments.map((segment) => segment.text).join(""));
+
+  const events: string[] = [];
+  const cues = splitSegmentsIntoCues(segments, {
+    maxLineLength,
+    maxLines,
+    maxDuration: Infinity,
+  });
+  for (const cue of cues) {
+    const cueTokens = cue.tokens.length
+      ? cue.tokens
+      : [{ text: cue.text, startTime: cue.startTime, endTime: cue.endTime }];
+    const tokens = shiftTokens(cueTokens, offset);
+    if (tokens.length === 0) continue;
+    const start = tokens[0].startTime;
+    const end = tokens[tokens.length - 1].endTime;
+    if (end <= start) continue;
+    events.push(
+      `Dialogue: 0,${formatAssTimestamp(start)},${formatAssTimestamp(end)},Karaoke,,0,0,0,,${buildKaraokeText(tokens, start, maxLineLength)}`
+    );
+  }
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${style.width}`,
+    `PlayResY: ${style.height}`,
+    "WrapStyle: 2",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    [
+      "Style: Karaoke",
+      fontName,
+      style.fontSize,
+      toAssColor(style.highlightColor),
+      toAssColor(style.textColor),
+      toAssColor(style.outlineColor),
+      "&H80000000",
+      style.bold ? -1 : 0,
+      0,
+      0,
+      0,
+      100,
+      100,
+      0,
+      0,
+      1,
+      style.outline,
+      style.shadow,
+      ALIGNMENT[style.position],
+      style.marginH,
+      style.marginH,
+      style.marginV,
+      1,
+    ].join(","),
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+};
@@ -34,7 +34,12 @@ export const getJsonFromResponse = async (response: Response) => {
   }
 
   try {
-    return JSON.parse(text) as { token?: string; refreshToken?: string } | null;
+    return JSON.parse(text) as {
+      token?: string;
+      refreshToken?: string;
+      expiresAt?: string;
+      expiresIn?: number;
+    } | null;
   } catch {
     return null;
   }
@@ -89,3 +94,36 @@ export const getRefreshTokenFromResponse = (
 
   return token;
 };
+
+export const decodeJwtExpiry = (token: string): string | undefined => {
+  const [, payload] = token.split(".");
+  if (!payload) return undefined;
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf-8")
+    ) as { exp?: unknown };
+    if (typeof claims.exp !== "number") return undefined;
+    return new Date(claims.exp * 1000).toISOString();
+  } catch {
+    return undefined;
+  }
+};
+
+export const getTokenExpiryFromResponse = (
+  accessToken: string,
+  data: { expiresAt?: string; expiresIn?: number } | null
+) => {
+  const jwtExpiry = decodeJwtExpiry(accessToken);
+  if (jwtExpiry) return jwtExpiry;
+
+  if (typeof data?.expiresAt === "string" && !Number.isNaN(Date.parse(data.expiresAt))) {
+    return new Date(data.expiresAt).toISOString();
+  }
+  if (typeof data?.expiresIn === "number") {
+    return new Date(Date.now() + data.expiresIn * 1000).toISOString();
+  }
+
+  logger.debug("No token expiry found in access token or response body");
+  return undefined;
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { logger } from "../logger.js";
+import { parseBoardDetail, parseBoardIds, parseBoardList } from "./board.js";
+
+describe("parseBoardIds", () => {
+  it("splits plain IDs on whitespace and commas", () => {
+    expect(parseBoardIds("b1\nb2 b3,b4\n")).toEqual(["b1", "b2", "b3", "b4"]);
+  });
+
+  it("returns nothing for empty input", () => {
+    expect(parseBoardIds("  \n")).toEqual([]);
+  });
+
+  it("accepts a JSON array of IDs", () => {
+    expect(parseBoardIds('["b1", "b2"]')).toEqual(["b1", "b2"]);
+  });
+
+  it("accepts board list --json output", () => {
+    const page = { items: [{ id: "b1", name: "One" }, { id: "b2" }], totalPages: 1 };
+    expect(parseBoardIds(JSON.stringify(page))).toEqual(["b1", "b2"]);
+
+    const all = [{ id: "b3", name: "Three", createdAt: "2026-01-01T00:00:00.000Z" }];
+    expect(parseBoardIds(JSON.stringify(all))).toEqual(["b3"]);
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(() => parseBoardIds("[oops")).toThrow("input looks like JSON but is invalid");
+  });
+});
+
+describe("parseBoardList", () => {
+  it("keeps boards with malformed optional fields and drops those without an id", () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => undefined as any);
+    const { boards } = parseBoardList({
+      items: [
+        {
+          id: "b1",
+          name: 42,
+          createdAt: { seconds: 1 },
+          isStarred: "yes",
+          keywords: ["roadmap", { label: "bad" }],
+          segments: [{ startTime: 0, endTime: 5, text: "Hi" }, { text: "no times" }],
+        },
+        { id: "b2", keywords: "roadmap", segments: null },
+        { name: "No id" },
+      ],
+    });
+
+    expect(boards.map((board) => board.id)).toEqual(["b1", "b2"]);
+    expect(boards[0]).toMatchObject({
+      name: "",
+      createdAt: undefined,
+      isStarred: false,
+      keywords: ["roadmap"],
+      segments: [{ startTime: 0, endTime: 5, text: "Hi", speaker: undefined }],
+    });
+    expect(boards[1]).toMatchObject({ keywords: [], segments: [] });
+    expect(warn).toHaveBeenCalledWith(
+      {
+        response: "board list entry 0",
+        boardId: "b1",
+        fields: ["name", "createdAt", "isStarred", "keywords.1", "segments.1"],
+      },
+      "Dropped malformed fields from board list entry 0"
+    );
+    expect(warn).toHaveBeenCalledWith(
+      { response: "board list entry 1", boardId: "b2", fields: ["keywords"] },
+      "Dropped malformed fields from board list entry 1"
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("parseBoardDetail", () => {
+  it("throws only when the id is unusable", () => {
+    const warn = vi.spyOn(logger, "warn").mockImplementation(() => undefined as any);
+    expect(parseBoardDetail({ id: "b1", duration: "long" }).duration).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(
+      { response: "board detail", boardId: "b1", fields: ["duration"] },
+      "Dropped malformed fields from board detail"
+    );
+    warn.mockRestore();
+    expect(() => parseBoardDetail({ id: 7 })).toThrow("Unexpected board detail response");
+  });
+});
@@ -1,36 +1,94 @@
-export const normalizeBoardList = (data: unknown): Array<Record<string, unknown>> => {
-  if (Array.isArray(data)) {
-    return data as Array<Record<string, unknown>>;
-  }
+import { ZodTypeAny } from "zod";
+import { logger } from "../logger.js";
+import {
+  BoardListMeta,
+  boardFieldsSchema,
+  boardListResponseSchema,
+  boardResponseSchema,
+  keywordListSchema,
+  NormalizedBoard,
+  segmentSchema,
+} from "../schemas/boards.js";
+import { validateResponse } from "./http.js";
+
+const BOARD_LIST_ITEMS: Record<string, ZodTypeAny> = {
+  keywords: keywordListSchema.element,
+  segments: segmentSchema,
+};
+
+/**
+ * Removes malformed optional fields and list entries from a board payload so
+ * the rest of the board survives; each removal is logged as a warning. Only a
+ * missing or invalid `id` is left for the schema to reject.
+ */
+const dropMalformedBoardFields = (data: unknown, label: string): unknown => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return data;
+  const board: Record<string, unknown> = { ...data };
+  const dropped: string[] = [];
 
-  if (data && typeof data === "object") {
-    const items = (data as { items?: unknown }).items;
-    if (Array.isArray(items)) {
-      return items as Array<Record<string, unknown>>;
+  for (const [field, schema] of Object.entries(boardFieldsSchema.shape)) {
+    if (field === "id" || board[field] === undefined) continue;
+    const itemSchema = BOARD_LIST_ITEMS[field];
+    const value = board[field];
+    if (itemSchema && Array.isArray(value)) {
+      board[field] = value.filter((entry, index) => {
+        const valid = itemSchema.safeParse(entry).success;
+        if (!valid) dropped.push(`${field}.${index}`);
+        return valid;
+      });
+    } else if (!schema.safeParse(value).success) {
+      delete board[field];
+      dropped.push(field);
     }
   }
 
-  return [];
+  if (dropped.length) {
+    logger.warn(
+      { response: label, boardId: board.id, fields: dropped },
+      `Dropped malformed fields from ${label}`
+    );
+  }
+  return board;
+};
+
+export const parseBoardList = (
+  data: unknown
+): { boards: NormalizedBoard[]; meta: BoardListMeta | null } => {
+  const list = validateResponse(boardListResponseSchema, data, "board list");
+  if (!list) return { boards: [], meta: null };
+
+  const boards: NormalizedBoard[] = [];
+  list.items.forEach((item, index) => {
+    const label = `board list entry ${index}`;
+    const board = validateResponse(
+      boardResponseSchema,
+      dropMalformedBoardFields(item, label),
+      label
+    );
+    if (board) boards.push(board);
+  });
+
+  return { boards, meta: list.meta };
+};
+
+export const parseBoardDetail = (data: unknown): NormalizedBoard => {
+  const board = validateResponse(
+    boardResponseSchema,
+    dropMalformedBoardFields(data, "board detail"),
+    "board detail"
+  );
+  if (!board) {
+    throw new Error("Unexpected board detail response; see warning for details.");
+  }
+  return board;
 };
 
-export const pickLatestBoard = (boards: Array<Record<string, unknown>>) => {
+export const pickLatestBoard = (boards: NormalizedBoard[]) => {
   if (!boards.length) return null;
 
   return boards.reduce((latest, current) => {
-    const latestTime = Date.parse(
-      (latest.createdAt as string | undefined) ??
-        (latest.updatedAt as string | undefined) ??
-        (latest.createTime as string | undefined) ??
-        (latest.updateTime as string | undefined) ??
-        ""
-    );
-    const currentTime = Date.parse(
-      (current.createdAt as string | undefined) ??
-        (current.updatedAt as string | undefined) ??
-        (current.createTime as string | undefined) ??
-        (current.updateTime as string | undefined) ??
-        ""
-    );
+    const latestTime = Date.parse(latest.createdAt ?? latest.updatedAt ?? "");
+    const currentTime = Date.parse(current.createdAt ?? current.updatedAt ?? "");
 
     if (Number.isNaN(latestTime)) return current;
     if (Number.isNaN(currentTime)) return latest;
@@ -38,3 +96,45 @@ export const pickLatestBoard = (boards: Array<Record<string, unknown>>) => {
     return currentTime > latestTime ? current : latest;
   }, boards[0]);
 };
+
+export const getNextPage = (
+  page: number,
+  count: number,
+  limit: number,
+  meta: BoardListMeta | null
+): number | null => {
+  if (meta && "nextPage" in meta) {
+    return typeof meta.nextPage === "number" && meta.nextPage > page
+      ? meta.nextPage
+      : null;
+  }
+  if (typeof meta?.totalPages === "number") {
+    return page < meta.totalPages ? page + 1 : null;
+  }
+  // Without paging metadata, a full page means there may be more.
+  return count >= limit ? page + 1 : null;
+};
+
+/**
+ * Extracts board IDs from piped input: a JSON list (plain IDs, boards, or a
+ * `board list --json` payload) or whitespace/comma-separated IDs.
+ */
+export const parseBoardIds = (input: string): string[] => {
+  const text = input.trim();
+  if (!text) return [];
+
+  if (text.startsWith("[") || text.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("Could not parse board IDs: input looks like JSON but is invalid.");
+    }
+    if (Array.isArray(data) && data.every((item) => typeof item === "string")) {
+      return data;
+    }
+    return parseBoardList(data).boards.map((board) => board.id);
+  }
+
+  return text.split(/[\s,]+/).filter(Boolean);
+};
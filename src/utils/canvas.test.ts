@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildBoardCanvas, matchKeywordSegments } from "./canvas.js";
+
+const segments = [
+  { startTime: 0, endTime: 30, text: "Roadmap review for Q3" },
+  { startTime: 75, endTime: 120, text: "Hiring plan and roadmap risks" },
+];
+
+describe("matchKeywordSegments", () => {
+  it("finds the segments mentioning each keyword regardless of case", () => {
+    expect([...matchKeywordSegments(segments, ["roadmap", "Hiring", "budget"])]).toEqual([
+      ["roadmap", [0, 1]],
+      ["Hiring", [1]],
+      ["budget", []],
+    ]);
+  });
+});
+
+describe("buildBoardCanvas", () => {
+  it("links the board to segments and segments to their keywords", () => {
+    const canvas = buildBoardCanvas({
+      title: "Planning",
+      segments,
+      keywords: ["roadmap", "budget"],
+      notePath: "summary/2024-05-01 Planning.md",
+    });
+
+    expect(canvas.nodes[0]).toMatchObject({
+      id: "board",
+      type: "file",
+      file: "summary/2024-05-01 Planning.md",
+    });
+    expect(canvas.nodes.find((node) => node.id === "segment-2")?.text).toBe(
+      "**1:15** Hiring plan and roadmap risks"
+    );
+    expect(canvas.edges.map((edge) => `${edge.fromNode}>${edge.toNode}`)).toEqual([
+      "board>segment-1",
+      "board>segment-2",
+      "segment-1>keyword-1",
+      "segment-2>keyword-1",
+      "board>keyword-2",
+    ]);
+  });
+
+  it("keeps keyword nodes from overlapping", () => {
+    const canvas = buildBoardCanvas({
+      title: "Planning",
+      segments: segments.slice(0, 1),
+      keywords: ["roadmap", "review", "q3"],
+    });
+    const keywords = canvas.nodes
+      .filter((node) => node.id.startsWith("keyword-"))
+      .sort((a, b) => a.y - b.y);
+    for (let i = 1; i < keywords.length; i += 1) {
+      expect(keywords[i].y).toBeGreaterThanOrEqual(keywords[i - 1].y + keywords[i - 1].height);
+    }
+    expect(canvas.nodes[0]).toMatchObject({ type: "text", text: "# Planning" });
+  });
+});
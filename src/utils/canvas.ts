@@ -0,0 +1,174 @@
+import { formatTimestampLink, MediaLink } from "./media-link.js";
+import { TimedText } from "./obsidian.js";
+import { formatMinutesSeconds } from "./template.js";
+
+/** JSON Canvas 1.0 (https://jsoncanvas.org), the format of Obsidian `.canvas` files. */
+export interface CanvasNode {
+  id: string;
+  type: "text" | "file";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  file?: string;
+  color?: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide: "left" | "right";
+  toNode: string;
+  toSide: "left" | "right";
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+export interface MindMapSource {
+  title: string;
+  segments: TimedText[];
+  keywords: string[];
+}
+
+/**
+ * Indexes of the segments that mention each keyword (case-insensitive).
+ * Keywords no segment mentions map to an empty list.
+ */
+export const matchKeywordSegments = (
+  segments: TimedText[],
+  keywords: string[]
+): Map<string, number[]> => {
+  const matches = new Map<string, number[]>();
+  for (const keyword of keywords) {
+    const needle = keyword.trim().toLowerCase();
+    if (!needle || matches.has(keyword)) continue;
+    matches.set(
+      keyword,
+      segments.flatMap((segment, index) =>
+        segment.text.toLowerCase().includes(needle) ? [index] : []
+      )
+    );
+  }
+  return matches;
+};
+
+const NODE_WIDTH = 420;
+const KEYWORD_WIDTH = 220;
+const KEYWORD_HEIGHT = 60;
+const COLUMN_GAP = 180;
+const ROW_GAP = 40;
+// Purple and cyan from Obsidian's preset canvas colours.
+const BOARD_COLOR = "6";
+const KEYWORD_COLOR = "5";
+
+const estimateHeight = (text: string) =>
+  Math.max(80, 40 + Math.ceil(text.length / 45) * 26);
+
+// Pushes keyword nodes down until none overlap, keeping their order.
+const spreadOverlaps = (column: CanvasNode[]) => {
+  const sorted = [...column].sort((a, b) => a.y - b.y);
+  for (let i = 1; i < sorted.length; i += 1) {
+    const minY = sorted[i - 1].y + sorted[i - 1].height + ROW_GAP / 2;
+    if (sorted[i].y < minY) sorted[i].y = minY;
+  }
+};
+
+/**
+ * Lays the board out as a left-to-right mind map: the board in the middle,
+ * one column of segment nodes and one of keyword nodes joined to the
+ * segments that mention them (or to the board when none does).
+ */
+export const buildBoardCanvas = (
+  source: MindMapSource & { notePath?: string; media?: MediaLink }
+): CanvasData => {
+  const nodes: CanvasNode[] = [];
+  const edges: CanvasEdge[] = [];
+  const segmentX = NODE_WIDTH + COLUMN_GAP;
+  const keywordX = segmentX + NODE_WIDTH + COLUMN_GAP;
+
+  let y = 0;
+  const segmentNodes = source.segments.map((segment, index) => {
+    const clock = formatMinutesSeconds(segment.startTime);
+    const timestamp = source.media
+      ? formatTimestampLink(source.media, segment.startTime, clock)
+      : clock;
+    const text = `**${timestamp}** ${segment.text}`;
+    const node: CanvasNode = {
+      id: `segment-${index + 1}`,
+      type: "text",
+      x: segmentX,
+      y,
+      width: NODE_WIDTH,
+      height: estimateHeight(text),
+      text,
+    };
+    y += node.height + ROW_GAP;
+    return node;
+  });
+  const columnHeight = Math.max(0, y - ROW_GAP);
+
+  const boardHeight = source.notePath ? 400 : 120;
+  const board: CanvasNode = {
+    id: "board",
+    ...(source.notePath
+      ? { type: "file" as const, file: source.notePath }
+      : { type: "text" as const, text: `# ${source.title}` }),
+    x: 0,
+    y: Math.round((columnHeight - boardHeight) / 2),
+    width: NODE_WIDTH,
+    height: boardHeight,
+    color: BOARD_COLOR,
+  };
+  nodes.push(board, ...segmentNodes);
+
+  for (const node of segmentNodes) {
+    edges.push({
+      id: `board-${node.id}`,
+      fromNode: board.id,
+      fromSide: "right",
+      toNode: node.id,
+      toSide: "left",
+    });
+  }
+
+  const keywordMatches = [...matchKeywordSegments(source.segments, source.keywords)];
+  keywordMatches.forEach(([keyword, indexes], i) => {
+    // Centre each keyword on the segments it links to.
+    const anchors = indexes.map((index) => segmentNodes[index]);
+    const centre = anchors.length
+      ? anchors.reduce((sum, node) => sum + node.y + node.height / 2, 0) / anchors.length
+      : board.y + board.height / 2;
+    const node: CanvasNode = {
+      id: `keyword-${i + 1}`,
+      type: "text",
+      x: keywordX,
+      y: Math.round(centre - KEYWORD_HEIGHT / 2),
+      width: KEYWORD_WIDTH,
+      height: KEYWORD_HEIGHT,
+      text: `#${keyword.trim().replace(/\s+/g, "_")}`,
+      color: KEYWORD_COLOR,
+    };
+    nodes.push(node);
+
+    const sources = anchors.length ? anchors : [board];
+    for (const from of sources) {
+      edges.push({
+        id: `${from.id}-${node.id}`,
+        fromNode: from.id,
+        fromSide: "right",
+        toNode: node.id,
+        toSide: "left",
+      });
+    }
+  });
+
+  spreadOverlaps(nodes.filter((node) => node.id.startsWith("keyword-")));
+  return { nodes, edges };
+};
+
+export const serializeCanvas = (canvas: CanvasData) =>
+  `${JSON.stringify(canvas, null, "\t")}\n`;
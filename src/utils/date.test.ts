@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseBetween, parseSince } from "./date.js";
+
+const now = new Date("2026-03-15T12:00:00.000Z");
+
+describe("parseSince", () => {
+  it("resolves hour, day and week offsets", () => {
+    expect(parseSince("36h", now)).toBe("2026-03-14T00:00:00.000Z");
+    expect(parseSince("7d", now)).toBe("2026-03-08T12:00:00.000Z");
+    expect(parseSince("2w", now)).toBe("2026-03-01T12:00:00.000Z");
+  });
+
+  it("resolves calendar month and year offsets", () => {
+    expect(parseSince("1mo", now)).toBe("2026-02-15T12:00:00.000Z");
+    expect(parseSince("1y", now)).toBe("2025-03-15T12:00:00.000Z");
+  });
+
+  it("accepts absolute dates", () => {
+    expect(parseSince("2026-01-01T00:00:00Z", now)).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("rejects unparseable input", () => {
+    expect(() => parseSince("last week", now)).toThrow(/Invalid --since date/);
+  });
+});
+
+describe("parseBetween", () => {
+  it("parses both ends", () => {
+    expect(parseBetween("2026-01-01..2026-02-01")).toEqual({
+      startDate: "2026-01-01T00:00:00.000Z",
+      endDate: "2026-02-01T00:00:00.000Z",
+    });
+  });
+
+  it("allows an open end", () => {
+    expect(parseBetween("2026-01-01..")).toEqual({
+      startDate: "2026-01-01T00:00:00.000Z",
+      endDate: undefined,
+    });
+  });
+
+  it("rejects malformed and inverted ranges", () => {
+    expect(() => parseBetween("2026-01-01")).toThrow(/START..END/);
+    expect(() => parseBetween("2026-02-01..2026-01-01")).toThrow(/ends before/);
+  });
+});
@@ -0,0 +1,50 @@
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const toIsoDate = (value: string, label: string): string => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${label} date: "${value}"`);
+  }
+  return new Date(time).toISOString();
+};
+
+/**
+ * Resolves a relative expression ("36h", "7d", "2w", "3mo", "1y") or an
+ * absolute date to an ISO timestamp in the past.
+ */
+export const parseSince = (expr: string, now: Date = new Date()): string => {
+  const match = /^(\d+)\s*(h|d|w|mo|y)$/i.exec(expr.trim());
+  if (!match) return toIsoDate(expr, "--since");
+
+  const amount = Number.parseInt(match[1], 10);
+  const unit = match[2].toLowerCase();
+  const date = new Date(now);
+  if (unit === "mo") date.setMonth(date.getMonth() - amount);
+  else if (unit === "y") date.setFullYear(date.getFullYear() - amount);
+  else date.setTime(date.getTime() - amount * UNIT_MS[unit]);
+  return date.toISOString();
+};
+
+/** Parses "START..END" where either side may be omitted ("2026-01-01.."). */
+export const parseBetween = (
+  expr: string
+): { startDate?: string; endDate?: string } => {
+  const parts = expr.split("..");
+  if (parts.length !== 2 || (!parts[0].trim() && !parts[1].trim())) {
+    throw new Error(`Invalid --between range: "${expr}" (expected START..END)`);
+  }
+
+  const [start, end] = parts.map((part) => part.trim());
+  const range = {
+    startDate: start ? toIsoDate(start, "--between start") : undefined,
+    endDate: end ? toIsoDate(end, "--between end") : undefined,
+  };
+  if (range.startDate && range.endDate && range.startDate > range.endDate) {
+    throw new Error(`Invalid --between range: "${expr}" ends before it starts`);
+  }
+  return range;
+};
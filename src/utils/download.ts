@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { toApiError } from "../api/errors.js";
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": ".mp3",
+  "audio/mp3": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+  "audio/aac": ".aac",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/flac": ".flac",
+  "audio/ogg": ".ogg",
+  "audio/webm": ".webm",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov",
+};
+
+/** File extension of a media URL's path, e.g. `.m4a`, or undefined when it has none. */
+export const getUrlExtension = (url: string): string | undefined => {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split(/[?#]/)[0];
+  }
+  const match = /\.([a-z0-9]{1,5})$/i.exec(path);
+  return match ? `.${match[1].toLowerCase()}` : undefined;
+};
+
+export const getContentTypeExtension = (contentType: string | null | undefined) =>
+  CONTENT_TYPE_EXTENSIONS[(contentType ?? "").split(";")[0].trim().toLowerCase()];
+
+/**
+ * A finished download named `<baseName><ext>` after its Content-Type (or
+ * `.bin`), for URLs whose path has no extension to name it by.
+ */
+export const findDownloadedMedia = (dir: string, baseName: string): string | undefined => {
+  if (!existsSync(dir)) return undefined;
+  const extensions = new Set([...Object.values(CONTENT_TYPE_EXTENSIONS), ".bin"]);
+  const name = readdirSync(dir).find(
+    (entry) => entry.startsWith(baseName) && extensions.has(entry.slice(baseName.length))
+  );
+  return name ? join(dir, name) : undefined;
+};
+
+export const sha256File = async (filePath: string): Promise<string> => {
+  const hash = createHash("sha256");
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+};
+
+export interface DownloadResult {
+  bytes: number;
+  /** Bytes already on disk from an interrupted download. */
+  resumedFrom: number;
+  sha256: string;
+  contentType?: string;
+}
+
+/**
+ * Streams a response into `partPath`, resuming from a previous partial file
+ * with a Range request, then verifies and moves it to `destPath`. A failed or
+ * truncated transfer leaves the partial file so the next run can resume it.
+ */
+export const downloadFile = async (
+  request: (headers: Record<string, string>) => Promise<Response>,
+  partPath: string,
+  resolveDestPath: (contentType?: string) => string,
+  options: { sha256?: string } = {}
+): Promise<DownloadResult & { path: string }> => {
+  const existing = existsSync(partPath) ? statSync(partPath).size : 0;
+  const response = await request(existing > 0 ? { Range: `bytes=${existing}-` } : {});
+
+  // 416: the partial file already holds the whole body.
+  const complete = response.status === 416 && existing > 0;
+  if (!response.ok && !complete) {
+    throw await toApiError(response, "Failed to download media");
+  }
+
+  const resumed = response.status === 206 ? existing : 0;
+  if (!complete) {
+    if (!response.body) throw new Error("Download failed: empty response body");
+    const expected = Number(response.headers.get("content-length"));
+    await pipeline(
+      Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+      createWriteStream(partPath, { flags: resumed ? "a" : "w" })
+    );
+    const written = statSync(partPath).size - resumed;
+    if (expected > 0 && written < expected) {
+      throw new Error(
+        `Download interrupted after ${written} of ${expected} bytes; run again to resume`
+      );
+    }
+  }
+
+  const sha256 = await sha256File(partPath);
+  if (options.sha256 && options.sha256.toLowerCase() !== sha256) {
+    rmSync(partPath, { force: true });
+    throw new Error(`Checksum mismatch: expected ${options.sha256}, got ${sha256}`);
+  }
+
+  const contentType = response.headers.get("content-type") ?? undefined;
+  const path = resolveDestPath(contentType);
+  renameSync(partPath, path);
+  return { path, bytes: statSync(path).size, resumedFrom: resumed, sha256, contentType };
+};
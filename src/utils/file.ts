@@ -1,17 +1,21 @@
 import { resolve } from "node:path";
-import {
-  buildPlainTextFromTokens,
-  extractKaraokeTokens,
-} from "./karaoke.js";
+import { getTranscriptText, parseTranscript } from "./transcript.js";
+
+// Characters rejected by Windows or that break Obsidian wiki links.
+const UNSAFE_FILENAME_CHARS = /[<>:"/\\|?*#^[\]]/g;
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
 
 export const sanitizeFilename = (value: string) => {
   if (!value) return "";
-  return value
-    .trim()
-    .replace(/[\/]/g, "-")
-    .replace(/[\u0000-\u001f]/g, "")
+  const cleaned = value
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .replace(UNSAFE_FILENAME_CHARS, "-")
     .replace(/\s+/g, " ")
-    .slice(0, 120);
+    .trim()
+    .slice(0, 120)
+    // Windows drops trailing dots and spaces, which would alias two names.
+    .replace(/[. ]+$/, "");
+  return WINDOWS_RESERVED_NAMES.test(cleaned) ? `_${cleaned}` : cleaned;
 };
 
 export const buildDefaultOutputPath = (baseName: string, extension: string) => {
@@ -23,24 +27,7 @@ export const buildPlainTextFromScriptPayload = (
   script: unknown,
   fallbackContent?: string | null
 ) => {
-  let sourceText = "";
-  if (script) {
-    try {
-      sourceText = JSON.stringify(script);
-    } catch {
-      sourceText = "";
-    }
-  }
-
-  if (!sourceText && fallbackContent) {
-    sourceText = fallbackContent;
-  }
-
-  if (!sourceText) return "";
-  const tokens = extractKaraokeTokens(sourceText);
-  let plainText = buildPlainTextFromTokens(tokens);
-  if (!plainText && fallbackContent) {
-    plainText = fallbackContent;
-  }
-  return plainText;
+  const source = script || fallbackContent;
+  if (!source) return "";
+  return getTranscriptText(parseTranscript(source)) || fallbackContent || "";
 };
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { NormalizedFolder } from "../schemas/folders.js";
+import { buildFolderTree, listFolderDirs } from "./folder.js";
+
+const folder = (id: string, parentId?: string): NormalizedFolder => ({
+  id,
+  name: id.toUpperCase(),
+  parentId,
+  createdAt: undefined,
+  isRoot: false,
+  boardCount: undefined,
+});
+
+describe("buildFolderTree", () => {
+  it("nests folders under their parents", () => {
+    const tree = buildFolderTree(
+      [folder("a"), folder("b", "a"), folder("c", "b"), folder("d", "a")],
+      new Map([["c", 3]])
+    );
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].children.map((child) => child.id)).toEqual(["b", "d"]);
+    expect(tree[0].children[0].children[0]).toMatchObject({ id: "c", boardCount: 3 });
+  });
+
+  it("keeps folders whose parent is unknown at the top level", () => {
+    const tree = buildFolderTree([folder("a"), folder("orphan", "missing")]);
+    expect(tree.map((node) => node.id)).toEqual(["a", "orphan"]);
+  });
+
+  it("breaks parent cycles instead of dropping folders", () => {
+    const tree = buildFolderTree([folder("a", "b"), folder("b", "a")]);
+    expect(tree.map((node) => node.id)).toEqual(["a"]);
+    expect(tree[0].children.map((child) => child.id)).toEqual(["b"]);
+    expect(tree[0].children[0].children).toEqual([]);
+  });
+});
+
+describe("listFolderDirs", () => {
+  it("mirrors the hierarchy without a segment for the account root", () => {
+    const root = { ...folder("root"), name: "", isRoot: true };
+    const dirs = listFolderDirs(
+      buildFolderTree([root, folder("a", "root"), folder("b", "a")])
+    );
+
+    expect(dirs).toEqual([
+      { folderId: "root", path: [] },
+      { folderId: "a", path: ["A"] },
+      { folderId: "b", path: ["A", "B"] },
+    ]);
+  });
+
+  it("disambiguates colliding and unsafe sibling names", () => {
+    const dirs = listFolderDirs(
+      buildFolderTree([
+        { ...folder("x"), name: "Notes" },
+        { ...folder("y"), name: "notes" },
+        { ...folder("z"), name: ".." },
+      ])
+    );
+
+    expect(dirs.map((dir) => dir.path)).toEqual([["Notes"], ["notes (y)"], ["z"]]);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  folderListResponseSchema,
+  folderResponseSchema,
+  NormalizedFolder,
+} from "../schemas/folders.js";
+import { sanitizeFilename } from "./file.js";
+import { validateResponse } from "./http.js";
+
+export const parseFolderList = (data: unknown): NormalizedFolder[] => {
+  const items = validateResponse(folderListResponseSchema, data, "folder list");
+  if (!items) return [];
+
+  const folders: NormalizedFolder[] = [];
+  items.forEach((item, index) => {
+    const folder = validateResponse(
+      folderResponseSchema,
+      item,
+      `folder list entry ${index}`
+    );
+    if (folder) folders.push(folder);
+  });
+  return folders;
+};
+
+export interface FolderTreeNode {
+  id: string;
+  name: string;
+  isRoot: boolean;
+  boardCount: number;
+  children: FolderTreeNode[];
+}
+
+/**
+ * Nests folders under their parents. Folders whose parent is missing (or that
+ * sit in a parent cycle) are surfaced at the top level rather than dropped.
+ */
+export const buildFolderTree = (
+  folders: NormalizedFolder[],
+  boardCounts?: Map<string, number>
+): FolderTreeNode[] => {
+  const nodes = new Map<string, FolderTreeNode>();
+  for (const folder of folders) {
+    nodes.set(folder.id, {
+      id: folder.id,
+      name: folder.name,
+      isRoot: folder.isRoot,
+      boardCount: folder.boardCount ?? boardCounts?.get(folder.id) ?? 0,
+      children: [],
+    });
+  }
+
+  const roots: FolderTreeNode[] = [];
+  const attached = new Set<string>();
+  for (const folder of folders) {
+    const node = nodes.get(folder.id)!;
+    const parent = folder.parentId ? nodes.get(folder.parentId) : undefined;
+    if (!parent || parent === node) {
+      roots.push(node);
+      attached.add(node.id);
+    } else {
+      parent.children.push(node);
+    }
+  }
+
+  const markReachable = (node: FolderTreeNode) => {
+    for (const child of node.children) {
+      attached.add(child.id);
+      markReachable(child);
+    }
+  };
+  roots.forEach(markReachable);
+
+  for (const folder of folders) {
+    if (attached.has(folder.id)) continue;
+    const node = nodes.get(folder.id)!;
+    for (const other of nodes.values()) {
+      other.children = other.children.filter((child) => child !== node);
+    }
+    roots.push(node);
+    attached.add(node.id);
+    markReachable(node);
+  }
+
+  return roots;
+};
+
+export const findFolderNode = (
+  roots: FolderTreeNode[],
+  folderId: string
+): FolderTreeNode | undefined => {
+  for (const node of roots) {
+    if (node.id === folderId) return node;
+    const match = findFolderNode(node.children, folderId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+export interface FolderDir {
+  folderId: string;
+  /** Directory segments relative to the export root. */
+  path: string[];
+}
+
+/**
+ * Maps each folder to a directory path mirroring the hierarchy. The account
+ * root contributes no segment; sibling names that collide get the folder ID
+ * appended so no two folders share a directory.
+ */
+export const listFolderDirs = (
+  nodes: FolderTreeNode[],
+  parentPath: string[] = []
+): FolderDir[] => {
+  const dirs: FolderDir[] = [];
+  const used = new Set<string>();
+
+  for (const node of nodes) {
+    let path = parentPath;
+    if (!node.isRoot) {
+      let segment = sanitizeFilename(node.name);
+      if (!segment || /^\.+$/.test(segment)) segment = node.id;
+      if (used.has(segment.toLowerCase())) segment = `${segment} (${node.id})`;
+      used.add(segment.toLowerCase());
+      path = [...parentPath, segment];
+    }
+    dirs.push({ folderId: node.id, path });
+    dirs.push(...listFolderDirs(node.children, path));
+  }
+  return dirs;
+};
+
+/** Slash-joined folder names from the top of the tree, skipping the account root. */
+export const getFolderPath = (
+  roots: FolderTreeNode[],
+  folderId: string
+): string | undefined => {
+  for (const node of roots) {
+    const segment = node.isRoot ? [] : [node.name];
+    if (node.id === folderId) return segment.join("/");
+    const rest = getFolderPath(node.children, folderId);
+    if (rest !== undefined) return [...segment, rest].filter(Boolean).join("/");
+  }
+  return undefined;
+};
@@ -1,4 +1,6 @@
+import type { ZodType, ZodTypeDef } from "zod";
 import { DAGLO_API_BASE } from "../config.js";
+import { logger } from "../logger.js";
 
 export const normalizePath = (path: string) => {
   if (!path) return "/";
@@ -47,3 +49,27 @@ export const parseResponseBody = async (response: Response) => {
     return text;
   }
 };
+
+/**
+ * Validates an API payload against a response schema. Unexpected shapes are
+ * logged as a warning with the failing paths and yield `null`.
+ */
+export const validateResponse = <T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  data: unknown,
+  label: string
+): T | null => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  logger.warn(
+    {
+      response: label,
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      ),
+    },
+    `Unexpected ${label} response shape`
+  );
+  return null;
+};
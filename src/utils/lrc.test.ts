@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { buildEnhancedLrcLine, formatLrcTimestamp, generateEnhancedLrc } from "./lrc.js";
+import { splitTokensIntoSentences } from "./transcript.js";
+
+const token = (text: string, startTime: number, endTime: number) => ({
+  text,
+  startTime,
+  endTime,
+});
+
+describe("formatLrcTimestamp", () => {
+  it("counts minutes past the hour", () => {
+    expect(formatLrcTimestamp(0)).toBe("00:00.00");
+    expect(formatLrcTimestamp(83.456)).toBe("01:23.46");
+    expect(formatLrcTimestamp(3725)).toBe("62:05.00");
+  });
+});
+
+describe("buildEnhancedLrcLine", () => {
+  it("stamps every word and the end of the last one", () => {
+    expect(
+      buildEnhancedLrcLine([token("Hello", 1, 1.5), token(" world.", 1.5, 2.25)])
+    ).toBe("[00:01.00]<00:01.00>Hello <00:01.50>world.<00:02.25>");
+  });
+
+  it("does not add spaces between CJK tokens", () => {
+    expect(buildEnhancedLrcLine([token("안녕", 0, 0.5), token("하세요", 0.5, 1)])).toBe(
+      "[00:00.00]<00:00.00>안녕<00:00.50>하세요<00:01.00>"
+    );
+  });
+});
+
+describe("generateEnhancedLrc", () => {
+  const segments = splitTokensIntoSentences([
+    token("One", 0, 0.5),
+    token(" two", 0.5, 1),
+    token(" three.", 1, 1.5),
+    token(" Four!", 3, 3.5),
+  ]);
+
+  it("writes a line per sentence, splitting long ones", () => {
+    expect(generateEnhancedLrc(segments, { maxLineLength: 8 })).toBe(
+      [
+        "[00:00.00]<00:00.00>One <00:00.50>two<00:01.00>",
+        "[00:01.00]<00:01.00>three.<00:01.50>",
+        "[00:03.00]<00:03.00>Four!<00:03.50>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("shifts by the offset and drops words before zero", () => {
+    expect(generateEnhancedLrc(segments, { offset: -1 })).toBe(
+      [
+        "[00:00.00]<00:00.00>three.<00:00.50>",
+        "[00:02.00]<00:02.00>Four!<00:02.50>",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { DEFAULT_SUBTITLE_OPTIONS, splitSegmentsIntoCues, SubtitleSegment } from "./subtitles.js";
+import { TranscriptToken } from "./transcript.js";
+
+/** `mm:ss.xx`; minutes keep counting past 59. */
+export const formatLrcTimestamp = (seconds: number) => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(totalCs / 6000))}:${pad(Math.floor(totalCs / 100) % 60)}.${pad(totalCs % 100)}`;
+};
+
+/**
+ * An enhanced LRC line: the line's start in `[...]`, then every word preceded
+ * by its own `<...>` start and a final stamp for when the last word ends.
+ */
+export const buildEnhancedLrcLine = (tokens: TranscriptToken[]): string => {
+  let line = `[${formatLrcTimestamp(tokens[0].startTime)}]`;
+  tokens.forEach((token, index) => {
+    const word = token.text.trim();
+    if (!word) return;
+    // Keep the word's leading space outside the tag, where players expect it.
+    const space = index > 0 && /^\s/.test(token.text) ? " " : "";
+    line += `${space}<${formatLrcTimestamp(token.startTime)}>${word}`;
+  });
+  return `${line}<${formatLrcTimestamp(tokens[tokens.length - 1].endTime)}>`;
+};
+
+export interface LrcOptions {
+  /** Characters per line; longer sentences are split across lines. */
+  maxLineLength?: number;
+  /** Seconds added to every timestamp; words that end up before 0 are dropped. */
+  offset?: number;
+}
+
+export const generateEnhancedLrc = (
+  segments: SubtitleSegment[],
+  options: LrcOptions = {}
+): string => {
+  const { maxLineLength = DEFAULT_SUBTITLE_OPTIONS.maxLineLength, offset = 0 } = options;
+  const lines: string[] = [];
+
+  const cues = splitSegmentsIntoCues(segments, {
+    maxLineLength,
+    maxLines: 1,
+    maxDuration: Infinity,
+  });
+  for (const cue of cues) {
+    const cueTokens = cue.tokens.length
+      ? cue.tokens
+      : [{ text: cue.text, startTime: cue.startTime, endTime: cue.endTime }];
+    const tokens = cueTokens
+      .map((token) => ({
+        ...token,
+        startTime: Math.max(0, token.startTime + offset),
+        endTime: Math.max(0, token.endTime + offset),
+      }))
+      .filter((token) => token.endTime > 0 && token.text.trim());
+    if (tokens.length) lines.push(buildEnhancedLrcLine(tokens));
+  }
+
+  return lines.length ? `${lines.join("\n")}\n` : "";
+};
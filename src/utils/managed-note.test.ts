@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeFrontmatter,
+  mergeManagedRegions,
+  mergeNote,
+  wrapManagedRegion,
+} from "./managed-note.js";
+
+describe("mergeManagedRegions", () => {
+  it("replaces region content and keeps text around it", () => {
+    const existing = `My intro\n\n${wrapManagedRegion("body", "old")}\n\nMy notes\n`;
+    const generated = `${wrapManagedRegion("body", "new")}\n`;
+
+    expect(mergeManagedRegions(existing, generated)).toBe(
+      `My intro\n\n${wrapManagedRegion("body", "new")}\n\nMy notes\n`
+    );
+  });
+
+  it("inserts new regions after their predecessor and drops stale ones", () => {
+    const existing = [
+      wrapManagedRegion("a", "1"),
+      "between",
+      wrapManagedRegion("gone", "x"),
+    ].join("\n\n");
+    const generated = [
+      wrapManagedRegion("a", "2"),
+      wrapManagedRegion("b", "3"),
+    ].join("\n");
+
+    expect(mergeManagedRegions(existing, generated)).toBe(
+      [wrapManagedRegion("a", "2"), wrapManagedRegion("b", "3"), "between", ""].join(
+        "\n\n"
+      )
+    );
+  });
+
+  it("keeps bodies written before managed regions existed and appends the regions", () => {
+    expect(mergeManagedRegions("legacy", wrapManagedRegion("body", "new"))).toBe(
+      `legacy\n\n${wrapManagedRegion("body", "new")}\n`
+    );
+    expect(mergeManagedRegions("", wrapManagedRegion("body", "new"))).toBe(
+      wrapManagedRegion("body", "new")
+    );
+  });
+
+  it("does not lose hand edits in a note from before managed regions", () => {
+    const legacy =
+      "---\ntitle: Old\nstatus: reviewed\n---\n# Call\n\nOld summary\n\nMy notes: follow up with Kim\n";
+    const generated = `---\ntitle: New\n---\n${wrapManagedRegion("body", "New summary")}\n`;
+
+    const merged = mergeNote(legacy, generated);
+    expect(merged).toBe(
+      [
+        "---",
+        "title: New",
+        "status: reviewed",
+        "---",
+        "# Call",
+        "",
+        "Old summary",
+        "",
+        "My notes: follow up with Kim",
+        "",
+        wrapManagedRegion("body", "New summary"),
+        "",
+      ].join("\n")
+    );
+    // The next export only refreshes the region.
+    expect(mergeNote(merged, generated)).toBe(merged);
+  });
+
+  it("replaces the body of a Daglo note exported before managed regions", () => {
+    const legacy = [
+      "---",
+      "title: Call",
+      "source: daglo",
+      "board_id: b1",
+      "status: reviewed",
+      "---",
+      "# Call",
+      "",
+      "## Summary",
+      "",
+      "Old summary",
+      "",
+    ].join("\n");
+    const generated = [
+      "---",
+      "title: Call",
+      "source: daglo",
+      "board_id: b1",
+      "---",
+      wrapManagedRegion("body", "# Call\n\n## Summary\n\nNew summary"),
+      "",
+    ].join("\n");
+
+    const merged = mergeNote(legacy, generated);
+    expect(merged).toBe(
+      [
+        "---",
+        "title: Call",
+        "source: daglo",
+        "board_id: b1",
+        "status: reviewed",
+        "---",
+        wrapManagedRegion("body", "# Call\n\n## Summary\n\nNew summary"),
+        "",
+      ].join("\n")
+    );
+    expect(merged).not.toContain("Old summary");
+    expect(mergeNote(merged, generated)).toBe(merged);
+  });
+});
+
+describe("mergeFrontmatter", () => {
+  it("keeps user properties and lets generated ones win", () => {
+    const existing = "title: Old\nstatus: reviewed\naliases:\n  - Plan\ntags: [a]";
+    const generated = "title: New\ntags: [journal, daglo]";
+
+    expect(mergeFrontmatter(existing, generated)).toBe(
+      "title: New\ntags: [journal, daglo]\nstatus: reviewed\naliases:\n  - Plan"
+    );
+  });
+});
+
+describe("mergeNote", () => {
+  it("merges frontmatter and body together", () => {
+    const existing = `---\ntitle: Old\nrating: 5\n---\n\n${wrapManagedRegion("body", "old")}\n\n## Mine\n`;
+    const generated = `---\ntitle: New\n---\n\n${wrapManagedRegion("body", "new")}\n`;
+
+    expect(mergeNote(existing, generated)).toBe(
+      `---\ntitle: New\nrating: 5\n---\n\n${wrapManagedRegion("body", "new")}\n\n## Mine\n`
+    );
+  });
+});
@@ -0,0 +1,123 @@
+const REGION_PATTERN =
+  /<!-- daglo:begin ([\w-]+) -->\n?([\s\S]*?)\n?<!-- daglo:end \1 -->/g;
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const TOP_LEVEL_KEY = /^([^\s#-][^:]*):/;
+
+interface ManagedRegion {
+  name: string;
+  block: string;
+}
+
+export const wrapManagedRegion = (name: string, content: string): string =>
+  `<!-- daglo:begin ${name} -->\n${content.trimEnd()}\n<!-- daglo:end ${name} -->`;
+
+const findRegions = (text: string): ManagedRegion[] =>
+  [...text.matchAll(REGION_PATTERN)].map((match) => ({
+    name: match[1],
+    block: match[0],
+  }));
+
+export const splitFrontmatter = (
+  text: string
+): { frontmatter: string | null; body: string } => {
+  const match = FRONTMATTER_PATTERN.exec(text);
+  if (!match) return { frontmatter: null, body: text };
+  return { frontmatter: match[1], body: text.slice(match[0].length) };
+};
+
+// Splits YAML into top-level entries, each with its indented continuation lines.
+const splitYamlEntries = (yaml: string): Array<{ key: string | null; lines: string[] }> => {
+  const entries: Array<{ key: string | null; lines: string[] }> = [];
+  for (const line of yaml.split(/\r?\n/)) {
+    const key = TOP_LEVEL_KEY.exec(line)?.[1].trim() ?? null;
+    if (key !== null || entries.length === 0) {
+      entries.push({ key, lines: [line] });
+    } else {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+  return entries;
+};
+
+/**
+ * Generated properties win; properties only present in the existing
+ * frontmatter (added by the user) are kept after them in their original order.
+ */
+export const mergeFrontmatter = (existing: string, generated: string): string => {
+  const generatedEntries = splitYamlEntries(generated);
+  const generatedKeys = new Set(generatedEntries.map((entry) => entry.key));
+  const userEntries = splitYamlEntries(existing).filter(
+    (entry) => entry.key !== null && !generatedKeys.has(entry.key)
+  );
+  return [...generatedEntries, ...userEntries]
+    .flatMap((entry) => entry.lines)
+    .join("\n")
+    .trimEnd();
+};
+
+/**
+ * Replaces each managed region of `existing` with the same region from
+ * `generated` and leaves everything outside the regions untouched. Regions the
+ * exporter no longer produces are dropped; new ones are inserted after the
+ * region that precedes them in `generated`. A body without any regions was
+ * written by the user, so it is kept as is and the regions are appended
+ * after it.
+ */
+export const mergeManagedRegions = (existing: string, generated: string): string => {
+  const existingRegions = findRegions(existing);
+  if (existingRegions.length === 0) {
+    const regions = findRegions(generated).map((region) => region.block);
+    if (!existing.trim()) return generated;
+    if (regions.length === 0) return existing;
+    return `${existing.trimEnd()}
+
+${regions.join("\n\n")}\n`;
+  }
+
+  const generatedRegions = findRegions(generated);
+  const generatedByName = new Map(generatedRegions.map((r) => [r.name, r.block]));
+
+  let merged = existing.replace(REGION_PATTERN, (block, name: string) =>
+    generatedByName.get(name) ?? ""
+  );
+
+  const present = new Set(existingRegions.map((region) => region.name));
+  generatedRegions.forEach((region, index) => {
+    if (present.has(region.name)) return;
+    const previous = generatedRegions[index - 1];
+    const anchor = previous ? merged.indexOf(previous.block) : -1;
+    if (anchor === -1) {
+      merged = `${region.block}\n\n${merged}`;
+    } else {
+      const at = anchor + previous.block.length;
+      merged = `${merged.slice(0, at)}\n\n${region.block}${merged.slice(at)}`;
+    }
+    present.add(region.name);
+  });
+
+  return merged;
+};
+
+/**
+ * Merges a freshly generated note into the copy already on disk. A Daglo note
+ * from before managed regions gets the generated body in place of its own.
+ */
+export const mergeNote = (existing: string, generated: string): string => {
+  const current = splitFrontmatter(existing);
+  const next = splitFrontmatter(generated);
+
+  // Daglo notes exported before managed regions existed are generated output
+  // throughout; keeping their body would duplicate it next to the new regions.
+  const legacyExport =
+    current.frontmatter !== null &&
+    /^source:\s*["']?daglo["']?\s*$/m.test(current.frontmatter) &&
+    findRegions(current.body).length === 0;
+  const body = legacyExport ? next.body : mergeManagedRegions(current.body, next.body);
+  if (next.frontmatter === null) return body;
+
+  const frontmatter =
+    current.frontmatter === null
+      ? next.frontmatter
+      : mergeFrontmatter(current.frontmatter, next.frontmatter);
+  return `---\n${frontmatter}\n---\n${body}`;
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { extractYouTubeId, formatTimestampLink, resolveMediaLink } from "./media-link.js";
+
+describe("extractYouTubeId", () => {
+  it("reads watch, short and shorts URLs", () => {
+    expect(extractYouTubeId("https://www.youtube.com/watch?v=abc")).toBe("abc");
+    expect(extractYouTubeId("https://youtu.be/xyz?si=1")).toBe("xyz");
+    expect(extractYouTubeId("https://youtube.com/shorts/s1")).toBe("s1");
+    expect(extractYouTubeId("not a url")).toBeNull();
+  });
+});
+
+describe("resolveMediaLink", () => {
+  it("prefers a YouTube source", () => {
+    expect(
+      resolveMediaLink({ sourceUrl: "https://youtu.be/abc", fileUrl: "https://cdn.test/a.mp3" })
+    ).toEqual({ kind: "youtube", videoId: "abc" });
+  });
+
+  it("links media files by source URL or vault path", () => {
+    expect(resolveMediaLink({ sourceUrl: "https://cdn.test/a.m4a" })).toEqual({
+      kind: "web",
+      url: "https://cdn.test/a.m4a",
+    });
+    expect(resolveMediaLink({ fileUrl: "media/call.mp3" })).toEqual({
+      kind: "file",
+      path: "media/call.mp3",
+    });
+  });
+
+  it("does not link presigned download URLs", () => {
+    expect(
+      resolveMediaLink({ fileUrl: "https://storage.test/a.m4a?X-Amz-Signature=1" })
+    ).toBeUndefined();
+  });
+
+  it("ignores URLs that are not media", () => {
+    expect(resolveMediaLink({ sourceUrl: "https://app.daglo.ai/board/1" })).toBeUndefined();
+    expect(resolveMediaLink({})).toBeUndefined();
+  });
+});
+
+describe("formatTimestampLink", () => {
+  it("builds a link per media kind", () => {
+    expect(formatTimestampLink({ kind: "youtube", videoId: "abc" }, 75.9, "1:15")).toBe(
+      "[1:15](https://www.youtube.com/watch?v=abc&t=75s)"
+    );
+    expect(formatTimestampLink({ kind: "web", url: "https://cdn.test/a b.mp3" }, 5, "0:05")).toBe(
+      "[0:05](https://cdn.test/a%20b.mp3#t=5)"
+    );
+    expect(formatTimestampLink({ kind: "file", path: "media/call.mp3" }, 5, "0:05")).toBe(
+      "[[media/call.mp3#t=5|0:05]]"
+    );
+  });
+});
@@ -0,0 +1,78 @@
+const MEDIA_EXTENSIONS = /\.(mp3|m4a|aac|wav|flac|ogg|oga|opus|webm|mp4|m4v|mov|mkv)$/i;
+
+/** Where a board's recording can be played from, for timestamp links. */
+export type MediaLink =
+  | { kind: "youtube"; videoId: string }
+  | { kind: "web"; url: string }
+  | { kind: "file"; path: string };
+
+export const extractYouTubeId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.replace(/^www\./, "");
+    if (hostname === "youtu.be") {
+      return parsed.pathname.split("/").filter(Boolean)[0] ?? null;
+    }
+    if (hostname.endsWith("youtube.com")) {
+      const videoId = parsed.searchParams.get("v");
+      if (videoId) return videoId;
+      if (parsed.pathname.startsWith("/shorts/")) {
+        return parsed.pathname.split("/")[2] ?? null;
+      }
+      if (parsed.pathname.startsWith("/live/")) {
+        return parsed.pathname.split("/")[2] ?? null;
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+};
+
+const isWebUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const hasMediaExtension = (value: string) => {
+  try {
+    return MEDIA_EXTENSIONS.test(isWebUrl(value) ? new URL(value).pathname : value);
+  } catch {
+    return false;
+  }
+};
+
+export const resolveMediaLink = (board: {
+  sourceUrl?: string;
+  fileUrl?: string;
+}): MediaLink | undefined => {
+  for (const url of [board.sourceUrl, board.fileUrl]) {
+    const videoId = url ? extractYouTubeId(url) : null;
+    if (videoId) return { kind: "youtube", videoId };
+  }
+
+  const sourceUrl = board.sourceUrl?.trim();
+  if (sourceUrl && isWebUrl(sourceUrl) && hasMediaExtension(sourceUrl)) {
+    return { kind: "web", url: sourceUrl };
+  }
+
+  // A web `fileUrl` is a presigned download link that expires, so notes would
+  // keep dead links; the recording is linked once it is saved into the vault.
+  const fileUrl = board.fileUrl?.trim();
+  if (!fileUrl || isWebUrl(fileUrl) || !hasMediaExtension(fileUrl)) return undefined;
+  return { kind: "file", path: fileUrl };
+};
+
+/**
+ * Markdown link that opens the media at `seconds`: a `?t=` link for YouTube and
+ * a Media Extended `#t=` link for audio and video files.
+ */
+export const formatTimestampLink = (media: MediaLink, seconds: number, label: string) => {
+  const t = Math.max(0, Math.floor(seconds));
+  switch (media.kind) {
+    case "youtube":
+      return `[${label}](https://www.youtube.com/watch?v=${encodeURIComponent(media.videoId)}&t=${t}s)`;
+    case "web":
+      return `[${label}](${media.url.split("#")[0].replace(/ /g, "%20")}#t=${t})`;
+    case "file":
+      return `[[${media.path}#t=${t}|${label}]]`;
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { buildMermaidMindmap } from "./mermaid.js";
+
+describe("buildMermaidMindmap", () => {
+  it("nests keywords under the segments that mention them", () => {
+    const block = buildMermaidMindmap({
+      title: "Planning (Q3)",
+      segments: [
+        { startTime: 0, endTime: 30, text: "Roadmap [draft] review" },
+        { startTime: 75, endTime: 120, text: "Hiring plan" },
+      ],
+      keywords: ["roadmap", "budget"],
+    });
+
+    expect(block).toBe(
+      [
+        "```mermaid",
+        "mindmap",
+        "  root((Planning Q3))",
+        "    0:00 Roadmap draft review",
+        "      roadmap",
+        "    1:15 Hiring plan",
+        "    budget",
+        "```",
+      ].join("\n")
+    );
+  });
+});
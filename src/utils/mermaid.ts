@@ -0,0 +1,35 @@
+import { matchKeywordSegments, MindMapSource } from "./canvas.js";
+import { formatMinutesSeconds } from "./template.js";
+
+const MAX_LABEL_LENGTH = 60;
+
+// Mindmap labels cannot contain the characters that open or close node shapes.
+const toLabel = (text: string) => {
+  const label = text.replace(/[()[\]{}"`]/g, " ").replace(/\s+/g, " ").trim();
+  return label.length > MAX_LABEL_LENGTH
+    ? `${label.slice(0, MAX_LABEL_LENGTH - 1).trimEnd()}…`
+    : label;
+};
+
+/**
+ * A Mermaid `mindmap` block: the board at the root, a branch per segment and
+ * each keyword under the segments that mention it (or the root when none does).
+ */
+export const buildMermaidMindmap = ({ title, segments, keywords }: MindMapSource) => {
+  const matches = [...matchKeywordSegments(segments, keywords)];
+  const keywordsOf = (index: number) =>
+    matches.filter(([, indexes]) => indexes.includes(index)).map(([keyword]) => keyword);
+
+  const lines = ["```mermaid", "mindmap", `  root((${toLabel(title) || "Board"}))`];
+  segments.forEach((segment, index) => {
+    lines.push(`    ${formatMinutesSeconds(segment.startTime)} ${toLabel(segment.text)}`);
+    for (const keyword of keywordsOf(index)) {
+      lines.push(`      ${toLabel(keyword)}`);
+    }
+  });
+  for (const [keyword, indexes] of matches) {
+    if (indexes.length === 0) lines.push(`    ${toLabel(keyword)}`);
+  }
+  lines.push("```");
+  return lines.join("\n");
+};
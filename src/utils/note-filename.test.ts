@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { sanitizeFilename } from "./file.js";
+import {
+  assertFilenamePattern,
+  assertTimeZone,
+  assignNoteBaseNames,
+  buildNoteBaseName,
+  DEFAULT_FILENAME_PATTERN,
+} from "./note-filename.js";
+
+const naming = { pattern: DEFAULT_FILENAME_PATTERN, timeZone: "UTC" };
+
+describe("sanitizeFilename", () => {
+  it("replaces characters Obsidian and Windows reject", () => {
+    expect(sanitizeFilename('a/b\\c:d*e?f"g<h>i|j#k^l[m]')).toBe(
+      "a-b-c-d-e-f-g-h-i-j-k-l-m-"
+    );
+  });
+
+  it("drops trailing dots and guards reserved device names", () => {
+    expect(sanitizeFilename("Notes...  ")).toBe("Notes");
+    expect(sanitizeFilename("con")).toBe("_con");
+    expect(sanitizeFilename("LPT1.txt")).toBe("_LPT1.txt");
+  });
+});
+
+describe("buildNoteBaseName", () => {
+  const source = { id: "b1", name: "Weekly: Sync", createdAt: "2024-05-01T23:30:00Z" };
+
+  it("uses the date and name by default", () => {
+    expect(buildNoteBaseName(source, naming)).toBe("2024-05-01 Weekly- Sync");
+  });
+
+  it("formats date and time in the configured timezone", () => {
+    expect(
+      buildNoteBaseName(source, { pattern: "{date} {time} {name}", timeZone: "Asia/Seoul" })
+    ).toBe("2024-05-02 0830 Weekly- Sync");
+  });
+
+  it("fills the id and folder tokens", () => {
+    expect(
+      buildNoteBaseName({ ...source, folder: "Team/A" }, { pattern: "{folder} - {id}" })
+    ).toBe("Team-A - b1");
+  });
+
+  it("falls back to the board ID when the pattern renders empty", () => {
+    expect(buildNoteBaseName({ ...source, folder: undefined }, { pattern: "{folder}" })).toBe(
+      "b1"
+    );
+  });
+});
+
+describe("assignNoteBaseNames", () => {
+  it("keeps the plain name for the earliest board and suffixes the rest", () => {
+    const names = assignNoteBaseNames(
+      [
+        { id: "late", name: "Standup", createdAt: "2024-05-01T18:00:00Z" },
+        { id: "early", name: "standup", createdAt: "2024-05-01T09:00:00Z" },
+        { id: "other", name: "Retro", createdAt: "2024-05-01T09:00:00Z" },
+      ],
+      naming
+    );
+
+    expect(names.get("early")).toBe("2024-05-01 standup");
+    expect(names.get("late")).toBe("2024-05-01 Standup (late)");
+    expect(names.get("other")).toBe("2024-05-01 Retro");
+  });
+});
+
+describe("option validation", () => {
+  it("rejects unknown filename tokens", () => {
+    expect(() => assertFilenamePattern("{date} {title}")).toThrow(/\{title\}/);
+    expect(assertFilenamePattern("{date}-{id}")).toBe("{date}-{id}");
+  });
+
+  it("rejects unknown timezones", () => {
+    expect(() => assertTimeZone("Mars/Olympus")).toThrow(/Unknown timezone/);
+    expect(assertTimeZone("Europe/Berlin")).toBe("Europe/Berlin");
+  });
+});
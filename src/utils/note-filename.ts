@@ -0,0 +1,85 @@
+import { sanitizeFilename } from "./file.js";
+import { formatDateForFilename, formatTimeForFilename } from "./obsidian.js";
+
+export const DEFAULT_FILENAME_PATTERN = "{date} {name}";
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+const FILENAME_TOKENS = ["date", "time", "name", "id", "folder"];
+
+export interface NoteNaming {
+  pattern: string;
+  /** IANA zone for {date} and {time}; defaults to the machine's zone. */
+  timeZone?: string;
+}
+
+export interface NoteNameSource {
+  id: string;
+  name: string;
+  createdAt?: string;
+  /** Name of the Daglo folder the board lives in. */
+  folder?: string;
+}
+
+export const assertTimeZone = (timeZone: string): string => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Unknown timezone "${timeZone}" (use an IANA name like Asia/Seoul)`);
+  }
+  return timeZone;
+};
+
+export const assertFilenamePattern = (pattern: string): string => {
+  for (const [, token] of pattern.matchAll(TOKEN_PATTERN)) {
+    if (!FILENAME_TOKENS.includes(token)) {
+      throw new Error(
+        `Unknown filename token {${token}} (available: ${FILENAME_TOKENS.map((t) => `{${t}}`).join(", ")})`
+      );
+    }
+  }
+  return pattern;
+};
+
+export const buildNoteBaseName = (source: NoteNameSource, naming: NoteNaming): string => {
+  const createdAt = source.createdAt ?? "";
+  const values: Record<string, string> = {
+    date: formatDateForFilename(createdAt, naming.timeZone),
+    time: formatTimeForFilename(createdAt, naming.timeZone),
+    name: source.name,
+    id: source.id,
+    folder: source.folder ?? "",
+  };
+  const name = naming.pattern.replace(TOKEN_PATTERN, (_, token: string) =>
+    sanitizeFilename(values[token] ?? "")
+  );
+  return sanitizeFilename(name) || source.id;
+};
+
+/**
+ * Names every board's note and resolves collisions deterministically: the
+ * earliest board (by creation time, then ID) keeps the plain name and the
+ * others get their board ID appended, so re-runs produce the same names.
+ */
+export const assignNoteBaseNames = (
+  sources: NoteNameSource[],
+  naming: NoteNaming
+): Map<string, string> => {
+  const groups = new Map<string, NoteNameSource[]>();
+  for (const source of sources) {
+    const key = buildNoteBaseName(source, naming).toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), source]);
+  }
+
+  const names = new Map<string, string>();
+  for (const group of groups.values()) {
+    group.sort(
+      (a, b) =>
+        (a.createdAt ?? "").localeCompare(b.createdAt ?? "") || a.id.localeCompare(b.id)
+    );
+    group.forEach((source, index) => {
+      const base = buildNoteBaseName(source, naming);
+      names.set(source.id, index === 0 ? base : `${base} (${sanitizeFilename(source.id)})`);
+    });
+  }
+  return names;
+};
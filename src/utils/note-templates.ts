@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { getConfigDir } from "../auth/credentials.js";
+import { obsidianConfigSchema, ObsidianConfig } from "../schemas/obsidian.js";
+import {
+  DEFAULT_NOTE_TAGS,
+  DEFAULT_ORIGINAL_TEMPLATE,
+  DEFAULT_SUMMARY_TEMPLATE,
+} from "./obsidian.js";
+import { CompiledTemplate, compileTemplate } from "./template.js";
+
+const CONFIG_FILE_NAME = "obsidian.json";
+
+export interface NoteTemplates {
+  original: CompiledTemplate;
+  summary: CompiledTemplate;
+  tags: string[];
+  /** Hash of the template sources and tags; changes whenever the notes would. */
+  fingerprint: string;
+}
+
+export const getObsidianConfigPath = (): string =>
+  join(getConfigDir(), CONFIG_FILE_NAME);
+
+export const loadObsidianConfig = (): ObsidianConfig => {
+  const path = getObsidianConfigPath();
+  if (!existsSync(path)) return {};
+
+  const result = obsidianConfigSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+  if (!result.success) {
+    throw new Error(`Invalid Obsidian config at ${path}: ${result.error.message}`);
+  }
+  const config = result.data;
+  // Relative template directories are relative to the config file.
+  if (config.templateDir) config.templateDir = resolve(dirname(path), config.templateDir);
+  return config;
+};
+
+const readTemplateSource = (dir: string, name: string, fallback: string) => {
+  const path = join(dir, `${name}.md`);
+  return { path, source: existsSync(path) ? readFileSync(path, "utf-8") : fallback };
+};
+
+const compileTemplateAt = ({ path, source }: { path: string; source: string }) => {
+  try {
+    return compileTemplate(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${path}: ${message}`);
+  }
+};
+
+/**
+ * Loads `original.md` and `summary.md` from `templateDir` (or the directory
+ * named in the config file); missing files fall back to the built-in layout.
+ */
+export const loadNoteTemplates = (templateDir?: string): NoteTemplates => {
+  const config = loadObsidianConfig();
+  const tags = config.tags ?? DEFAULT_NOTE_TAGS;
+  const dir = templateDir ? resolve(templateDir) : config.templateDir;
+  if (dir && !existsSync(dir)) throw new Error(`Template directory not found: ${dir}`);
+
+  const original = dir
+    ? readTemplateSource(dir, "original", DEFAULT_ORIGINAL_TEMPLATE)
+    : { path: "original", source: DEFAULT_ORIGINAL_TEMPLATE };
+  const summary = dir
+    ? readTemplateSource(dir, "summary", DEFAULT_SUMMARY_TEMPLATE)
+    : { path: "summary", source: DEFAULT_SUMMARY_TEMPLATE };
+
+  return {
+    original: compileTemplateAt(original),
+    summary: compileTemplateAt(summary),
+    tags,
+    fingerprint: createHash("sha256")
+      .update(JSON.stringify([original.source, summary.source, tags]))
+      .digest("hex"),
+  };
+};
@@ -1,27 +1,93 @@
-export const formatDateForFilename = (dateStr: string) => {
+import { stringify } from "yaml";
+import { wrapManagedRegion } from "./managed-note.js";
+import { formatTimestampLink, MediaLink } from "./media-link.js";
+import { formatMinutesSeconds } from "./template.js";
+
+const getDateParts = (dateStr: string, timeZone?: string) => {
   const date = new Date(dateStr);
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  if (Number.isNaN(date.getTime())) {
+    return { year: "0000", month: "00", day: "00", hour: "00", minute: "00" };
+  }
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+  };
+};
+
+/** YYYY-MM-DD in `timeZone` (default: the machine's local zone). */
+export const formatDateForFilename = (dateStr: string, timeZone?: string) => {
+  const { year, month, day } = getDateParts(dateStr, timeZone);
+  return `${year}-${month}-${day}`;
+};
+
+/** HHmm in `timeZone`; no colon so the result is a valid Windows filename. */
+export const formatTimeForFilename = (dateStr: string, timeZone?: string) => {
+  const { hour, minute } = getDateParts(dateStr, timeZone);
+  return `${hour}${minute}`;
 };
 
-export const generateFrontmatter = (options: {
+export interface FrontmatterOptions {
   title: string;
   date: string;
+  /** Zone used to derive `date`; defaults to the machine's zone. */
+  timeZone?: string;
   tags: string[];
   keywords: string[];
   boardId: string;
   created: string;
-}) => {
-  return `---
-title: "${options.title}"
-date: ${formatDateForFilename(options.date)}
-tags: [${options.tags.join(", ")}]
-keywords: [${options.keywords.join(", ")}]
-source: daglo
-board_id: ${options.boardId}
-created: ${options.created}
----`;
+  /** Recording length in seconds. */
+  duration?: number;
+  speakers?: string[];
+  /** Daglo folder path, e.g. `Work/Calls`. */
+  folder?: string;
+  boardType?: string;
+  sourceUrl?: string;
+  shareUrl?: string;
+}
+
+/** Serializes note properties with a YAML emitter so names and keywords are quoted as needed. */
+export const generateFrontmatter = (options: FrontmatterOptions) => {
+  const properties: Record<string, unknown> = {
+    title: options.title,
+    date: formatDateForFilename(options.date, options.timeZone),
+    tags: options.tags,
+    keywords: options.keywords,
+    source: "daglo",
+    board_id: options.boardId,
+    created: options.created,
+    duration: options.duration,
+    speakers: options.speakers?.length ? options.speakers : undefined,
+    folder: options.folder || undefined,
+    board_type: options.boardType,
+    source_url: options.sourceUrl,
+    share_url: options.shareUrl,
+  };
+  for (const key of Object.keys(properties)) {
+    if (properties[key] === undefined) delete properties[key];
+  }
+
+  return `---\n${stringify(properties, { lineWidth: 0 }).trimEnd()}\n---`;
 };
 
+export const collectSpeakers = (segments: Array<{ speaker?: string }>): string[] => [
+  ...new Set(
+    segments.map((segment) => segment.speaker?.trim()).filter((s): s is string => !!s)
+  ),
+];
+
 export const formatOriginalContent = (content: string) => {
   if (!content) return "";
   return content
@@ -38,38 +104,143 @@ export const formatOriginalContent = (content: string) => {
     }, "");
 };
 
-export const formatSummaryContent = (options: {
-  title: string;
-  originalFilename: string;
-  summary?: string;
-  aiSummary?: string;
-  keywords?: string[];
-  segments?: Array<{ startTime: number; endTime: number; text: string; speaker?: string }>;
-}) => {
-  let content = `# ${options.title}\n\n`;
+export interface TimedText {
+  text: string;
+  /** Seconds from the start of the recording. */
+  startTime: number;
+  endTime: number;
+}
 
-  content += `> [!info] 원본 노트\n> [[original/${options.originalFilename}]]\n\n`;
+type Timestamped<T> = T & {
+  /** `m:ss`, linked to that moment of the media when the board has one. */
+  timestamp: string;
+};
 
-  if (options.aiSummary) {
-    content += `> [!summary] AI 요약\n> ${options.aiSummary.split("\n").join("\n> ")}\n\n`;
-  }
+const addTimestamps = <T extends TimedText>(items: T[], media?: MediaLink): Timestamped<T>[] =>
+  items.map((item) => {
+    const clock = formatMinutesSeconds(item.startTime);
+    return {
+      ...item,
+      timestamp: media ? formatTimestampLink(media, item.startTime, clock) : clock,
+    };
+  });
 
-  if (options.summary) {
-    content += `## 요약\n${options.summary}\n\n`;
+// Each paragraph of four sentences opens with a link to its first sentence.
+const formatTimestampedTranscript = (sentences: Timestamped<TimedText>[]) => {
+  const paragraphs: string[] = [];
+  for (let i = 0; i < sentences.length; i += 4) {
+    const group = sentences.slice(i, i + 4);
+    paragraphs.push(`${group[0].timestamp} ${group.map((s) => s.text).join(" ")}`);
   }
+  return paragraphs.join("\n\n");
+};
 
-  if (options.keywords?.length) {
-    content += `## 키워드\n${options.keywords.map((keyword) => `#${keyword.replace(/\s+/g, "_")}`).join(" ")}\n\n`;
-  }
+export const DEFAULT_NOTE_TAGS = ["journal", "daglo"];
 
-  if (options.segments?.length) {
-    content += "## 타임스탬프\n";
-    options.segments.forEach((segment) => {
-      const mins = Math.floor(segment.startTime / 60);
-      const secs = Math.floor(segment.startTime % 60);
-      content += `- **${mins}:${String(secs).padStart(2, "0")}** ${segment.text}\n`;
-    });
-  }
+export const DEFAULT_ORIGINAL_TEMPLATE = "{{transcript}}";
+
+export const DEFAULT_SUMMARY_TEMPLATE = `# {{title}}
+
+> [!info] 원본 노트
+> [[original/{{originalFilename}}]]
+
+{{#if attachment}}
+![[{{attachment}}]]
+
+{{/if}}
+{{#if aiSummary}}
+> [!summary] AI 요약
+{{aiSummary | quote}}
 
-  return content;
+{{/if}}
+{{#if summary}}
+## 요약
+{{summary}}
+
+{{/if}}
+{{#if keywords}}
+## 키워드
+{{#each keywords}}{{this | tag}}{{#unless @last}} {{/unless}}{{/each}}
+
+{{/if}}
+{{#if mindmap}}
+## 마인드맵
+{{mindmap}}
+
+{{/if}}
+{{#if segments}}
+## 타임스탬프
+{{#each segments}}
+- **{{timestamp}}** {{text}}
+{{/each}}
+{{/if}}
+`;
+
+export interface NoteTemplateContext {
+  title: string;
+  /** Creation date as YYYY-MM-DD. */
+  date: string;
+  created: string;
+  boardId: string;
+  originalFilename: string;
+  /** Filename of the downloaded media in the attachments folder. */
+  attachment?: string;
+  tags: string[];
+  keywords: string[];
+  summary?: string;
+  aiSummary?: string;
+  segments: Timestamped<NoteSegment>[];
+  /** Transcript sentences; empty when the script has no timing. */
+  sentences: Timestamped<TimedText>[];
+  /** Transcript split into paragraphs, as in the original note. */
+  transcript: string;
+  /** Mermaid mindmap block of the segments, when requested. */
+  mindmap?: string;
+}
+
+type NoteSegment = TimedText & { speaker?: string };
+
+export const buildNoteContext = (options: {
+  title: string;
+  createdAt: string;
+  timeZone?: string;
+  boardId: string;
+  originalFilename: string;
+  attachment?: string;
+  tags: string[];
+  keywords?: string[];
+  summary?: string;
+  aiSummary?: string;
+  segments?: NoteSegment[];
+  sentences?: TimedText[];
+  content?: string;
+  media?: MediaLink;
+  mindmap?: string;
+}): NoteTemplateContext => {
+  const sentences = addTimestamps(options.sentences ?? [], options.media);
+  return {
+    title: options.title,
+    date: formatDateForFilename(options.createdAt, options.timeZone),
+    created: options.createdAt,
+    boardId: options.boardId,
+    originalFilename: options.originalFilename,
+    attachment: options.attachment,
+    tags: options.tags,
+    keywords: options.keywords ?? [],
+    summary: options.summary,
+    aiSummary: options.aiSummary,
+    segments: addTimestamps(options.segments ?? [], options.media),
+    sentences,
+    transcript:
+      options.media && sentences.length
+        ? formatTimestampedTranscript(sentences)
+        : options.content
+          ? formatOriginalContent(options.content)
+          : "",
+    mindmap: options.mindmap,
+  };
 };
+
+/** Joins frontmatter and a body the exporter owns; edits outside the region survive re-export. */
+export const composeNote = (frontmatter: string, body: string) =>
+  `${frontmatter}\n\n${wrapManagedRegion("body", body)}\n`;
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSubtitleCues,
+  formatSrtTimestamp,
+  generateSrt,
+  generateTtml,
+  wrapSubtitleText,
+} from "./subtitles.js";
+
+const token = (text: string, startTime: number, endTime: number) => ({
+  text,
+  startTime,
+  endTime,
+});
+
+describe("wrapSubtitleText", () => {
+  it("wraps at word boundaries and breaks words longer than a line", () => {
+    expect(wrapSubtitleText("the quick brown fox", 10)).toEqual(["the quick", "brown fox"]);
+    expect(wrapSubtitleText("가나다라마바사", 3)).toEqual(["가나다", "라마바", "사"]);
+  });
+});
+
+describe("buildSubtitleCues", () => {
+  const words = "one two three four five six".split(" ");
+  const segment = {
+    text: words.join(" "),
+    startTime: 0,
+    endTime: 6,
+    tokens: words.map((word, i) => token(i ? ` ${word}` : word, i, i + 1)),
+  };
+
+  it("splits cues at token boundaries to honor line length and count", () => {
+    const cues = buildSubtitleCues([segment], { maxLineLength: 9, maxLines: 1 });
+    expect(cues.map((cue) => [cue.lines, cue.startTime, cue.endTime])).toEqual([
+      [["one two"], 0, 2],
+      [["three"], 2, 3],
+      [["four five"], 3, 5],
+      [["six"], 5, 6],
+    ]);
+  });
+
+  it("splits cues that would last longer than the maximum", () => {
+    const cues = buildSubtitleCues([segment], { maxDuration: 2.5 });
+    expect(cues.map((cue) => cue.lines.join(" "))).toEqual(["one two", "three four", "five six"]);
+  });
+
+  it("extends short cues up to the next cue and applies the offset", () => {
+    const cues = buildSubtitleCues(
+      [
+        { text: "Hi.", startTime: 10, endTime: 10.2, tokens: [] },
+        { text: "Bye.", startTime: 10.5, endTime: 10.7, tokens: [] },
+        { text: "Early.", startTime: 1, endTime: 2, tokens: [] },
+      ],
+      { minDuration: 1, offset: -5 }
+    );
+    expect(cues.map((cue) => [cue.startTime, cue.endTime])).toEqual([
+      [5, 5.5],
+      [5.5, 6.5],
+    ]);
+  });
+});
+
+describe("subtitle writers", () => {
+  const cues = [{ startTime: 3661.0456, endTime: 3662.5, lines: ["A & B", "<c>"] }];
+
+  it("writes SRT with comma milliseconds", () => {
+    expect(formatSrtTimestamp(0.9996)).toBe("00:00:01,000");
+    expect(generateSrt(cues)).toBe("1\n01:01:01,046 --> 01:01:02,500\nA & B\n<c>\n\n");
+  });
+
+  it("writes TTML with escaped text and line breaks", () => {
+    expect(generateTtml(cues)).toContain(
+      '<p begin="01:01:01.046" end="01:01:02.500">A &amp; B<br/>&lt;c&gt;</p>'
+    );
+  });
+
+  it("sets the TTML language from the script or the given tag", () => {
+    const korean = [{ startTime: 0, endTime: 1, lines: ["안녕하세요"] }];
+    expect(generateTtml(korean)).toContain('xml:lang="ko"');
+    expect(generateTtml(cues)).toContain('xml:lang="en"');
+    expect(generateTtml(cues, "en-GB")).toContain('xml:lang="en-GB"');
+  });
+});
@@ -0,0 +1,261 @@
+import { TranscriptSentence, TranscriptToken } from "./transcript.js";
+
+export type SubtitleFormat = "srt" | "vtt" | "ttml";
+
+/** A run of transcript tokens; times are in seconds. */
+export type SubtitleSegment = TranscriptSentence;
+
+export interface SubtitleOptions {
+  /** Characters per line before wrapping. */
+  maxLineLength: number;
+  /** Lines per cue; longer text is split into more cues. */
+  maxLines: number;
+  /** Seconds a cue stays up at least, unless the next cue starts sooner. */
+  minDuration: number;
+  /** Seconds a cue stays up at most. */
+  maxDuration: number;
+  /** Seconds added to every timestamp; cues that end up before 0 are dropped. */
+  offset: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  minDuration: 1,
+  maxDuration: 7,
+  offset: 0,
+};
+
+const splitLongWord = (word: string, maxLength: number): string[] => {
+  const parts: string[] = [];
+  let remaining = word;
+  while (remaining.length > maxLength) {
+    parts.push(remaining.slice(0, maxLength));
+    remaining = remaining.slice(maxLength);
+  }
+  if (remaining.length > 0) {
+    parts.push(remaining);
+  }
+  return parts;
+};
+
+export const wrapSubtitleText = (text: string, maxLineLength: number): string[] => {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (!normalized) return [];
+
+  const lines: string[] = [];
+  let currentLine = "";
+
+  for (const word of normalized.split(" ")) {
+    if (currentLine && currentLine.length + 1 + word.length <= maxLineLength) {
+      currentLine = `${currentLine} ${word}`;
+      continue;
+    }
+    if (currentLine) lines.push(currentLine);
+    currentLine = "";
+    if (word.length > maxLineLength) {
+      const parts = splitLongWord(word, maxLineLength);
+      currentLine = parts.pop() ?? "";
+      lines.push(...parts);
+    } else {
+      currentLine = word;
+    }
+  }
+
+  if (currentLine) lines.push(currentLine);
+  return lines;
+};
+
+const splitTokenByMaxChars = (token: TranscriptToken, maxChars: number): TranscriptToken[] => {
+  if (token.text.length <= maxChars) return [token];
+  const totalChars = token.text.length;
+  const duration = token.endTime - token.startTime;
+  const perChar = totalChars > 0 ? duration / totalChars : 0;
+  const parts: TranscriptToken[] = [];
+
+  let offset = 0;
+  while (offset < totalChars) {
+    const chunk = token.text.slice(offset, offset + maxChars);
+    const chunkStart = token.startTime + perChar * offset;
+    const chunkEnd = token.startTime + perChar * (offset + chunk.length);
+    parts.push({ text: chunk, startTime: chunkStart, endTime: chunkEnd });
+    offset += chunk.length;
+  }
+
+  return parts;
+};
+
+/**
+ * Splits segments into cues that fit `maxLines` lines of `maxLineLength`
+ * characters and last at most `maxDuration`, cutting at token boundaries.
+ */
+export const splitSegmentsIntoCues = (
+  segments: SubtitleSegment[],
+  options: Pick<SubtitleOptions, "maxLineLength" | "maxLines" | "maxDuration">
+): SubtitleSegment[] => {
+  const { maxLineLength, maxLines, maxDuration } = options;
+  const fits = (text: string, startTime: number, endTime: number) =>
+    wrapSubtitleText(text, maxLineLength).length <= maxLines &&
+    endTime - startTime <= maxDuration;
+
+  const results: SubtitleSegment[] = [];
+  for (const segment of segments) {
+    if (fits(segment.text, segment.startTime, segment.endTime)) {
+      results.push(segment);
+      continue;
+    }
+
+    const tokens = segment.tokens.length
+      ? segment.tokens
+      : [{ text: segment.text, startTime: segment.startTime, endTime: segment.endTime }];
+
+    let current: TranscriptToken[] = [];
+    const flush = () => {
+      const text = current.map((token) => token.text).join("").trim();
+      if (text) {
+        results.push({
+          text,
+          startTime: current[0].startTime,
+          endTime: current[current.length - 1].endTime,
+          tokens: current,
+        });
+      }
+      current = [];
+    };
+
+    for (const token of tokens) {
+      for (const part of splitTokenByMaxChars(token, maxLineLength * maxLines)) {
+        if (current.length) {
+          const text = [...current, part].map((t) => t.text).join("");
+          if (!fits(text, current[0].startTime, part.endTime)) flush();
+        }
+        current.push(part);
+      }
+    }
+    flush();
+  }
+
+  return results;
+};
+
+export interface SubtitleCue {
+  startTime: number;
+  endTime: number;
+  lines: string[];
+}
+
+/** Turns transcript segments into timed, wrapped cues following `options`. */
+export const buildSubtitleCues = (
+  segments: SubtitleSegment[],
+  options: Partial<SubtitleOptions> = {}
+): SubtitleCue[] => {
+  const settings = { ...DEFAULT_SUBTITLE_OPTIONS };
+  for (const [key, value] of Object.entries(options) as Array<[keyof SubtitleOptions, number]>) {
+    if (value !== undefined) settings[key] = value;
+  }
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of splitSegmentsIntoCues(segments, settings)) {
+    const startTime = Math.max(0, segment.startTime + settings.offset);
+    const endTime = Math.max(0, segment.endTime + settings.offset);
+    if (endTime <= startTime) continue;
+    cues.push({
+      startTime,
+      endTime,
+      lines: wrapSubtitleText(segment.text, settings.maxLineLength),
+    });
+  }
+
+  cues.forEach((cue, index) => {
+    const nextStart = cues[index + 1]?.startTime ?? Infinity;
+    const minEnd = Math.min(cue.startTime + settings.minDuration, nextStart);
+    cue.endTime = Math.min(Math.max(cue.endTime, minEnd), cue.startTime + settings.maxDuration);
+  });
+
+  return cues;
+};
+
+const splitClock = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return {
+    hms: `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor(totalMs / 60000) % 60)}:${pad(Math.floor(totalMs / 1000) % 60)}`,
+    ms: pad(totalMs % 1000, 3),
+  };
+};
+
+/** `HH:MM:SS,mmm` */
+export const formatSrtTimestamp = (seconds: number) => {
+  const { hms, ms } = splitClock(seconds);
+  return `${hms},${ms}`;
+};
+
+/** `HH:MM:SS.mmm`, used by both WebVTT and TTML clock times. */
+export const formatVttTimestamp = (seconds: number) => {
+  const { hms, ms } = splitClock(seconds);
+  return `${hms}.${ms}`;
+};
+
+export const generateSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatSrtTimestamp(cue.startTime)} --> ${formatSrtTimestamp(cue.endTime)}\n${cue.lines.join("\n")}\n\n`
+    )
+    .join("");
+
+const escapeMarkup = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const generateVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(
+      (cue) =>
+        `${formatVttTimestamp(cue.startTime)} --> ${formatVttTimestamp(cue.endTime)}\n${cue.lines.map(escapeMarkup).join("\n")}\n\n`
+    )
+    .join("")}`;
+
+/** Language code of the CJK script the text is written in; undefined for other scripts. */
+export const detectScriptLanguage = (text: string): "ko" | "ja" | "zh" | undefined => {
+  if (/[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/.test(text)) return "ko";
+  if (/[\u3040-\u30ff]/.test(text)) return "ja";
+  if (/[\u4e00-\u9fff]/.test(text)) return "zh";
+  return undefined;
+};
+
+// Text in any other script is taken to be English unless a language is passed.
+export const generateTtml = (
+  cues: SubtitleCue[],
+  language = detectScriptLanguage(cues.flatMap((cue) => cue.lines).join("")) ?? "en"
+): string => {
+  const paragraphs = cues.map(
+    (cue) =>
+      `      <p begin="${formatVttTimestamp(cue.startTime)}" end="${formatVttTimestamp(cue.endTime)}">${cue.lines.map(escapeMarkup).join("<br/>")}</p>`
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${language}">`,
+    "  <body>",
+    "    <div>",
+    ...paragraphs,
+    "    </div>",
+    "  </body>",
+    "</tt>",
+    "",
+  ].join("\n");
+};
+
+export const renderSubtitles = (
+  format: SubtitleFormat,
+  cues: SubtitleCue[],
+  options: { language?: string } = {}
+): string => {
+  switch (format) {
+    case "srt":
+      return generateSrt(cues);
+    case "vtt":
+      return generateVtt(cues);
+    case "ttml":
+      return generateTtml(cues, options.language);
+  }
+};
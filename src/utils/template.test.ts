@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { compileTemplate, renderTemplate } from "./template.js";
+
+describe("renderTemplate", () => {
+  it("substitutes nested paths and applies filters", () => {
+    expect(
+      renderTemplate("{{title | upper}} @ {{meta.start | clock}}", {
+        title: "Standup",
+        meta: { start: 125 },
+      })
+    ).toBe("STANDUP @ 2:05");
+  });
+
+  it("renders conditionals with else branches", () => {
+    const template = "{{#if summary}}S: {{summary}}{{else}}none{{/if}}";
+    expect(renderTemplate(template, { summary: "ok" })).toBe("S: ok");
+    expect(renderTemplate(template, { summary: "" })).toBe("none");
+    expect(renderTemplate("{{#unless items}}empty{{/unless}}", { items: [] })).toBe("empty");
+  });
+
+  it("loops with item scope and loop locals", () => {
+    const template =
+      "{{#each segments}}{{@index}}:{{text}} [{{title}}]{{#unless @last}}, {{/unless}}{{/each}}";
+    expect(
+      renderTemplate(template, {
+        title: "T",
+        segments: [{ text: "a" }, { text: "b" }],
+      })
+    ).toBe("0:a [T], 1:b [T]");
+  });
+
+  it("drops the lines of standalone block tags", () => {
+    const template = "# Title\n{{#each tags}}\n- {{this | tag}}\n{{/each}}\nend\n";
+    expect(renderTemplate(template, { tags: ["a b", "c"] })).toBe(
+      "# Title\n- #a_b\n- #c\nend\n"
+    );
+  });
+
+  it("reports syntax errors at compile time", () => {
+    expect(() => compileTemplate("{{#if x}}open")).toThrow("Unclosed {{#if}}");
+    expect(() => compileTemplate("{{#if x}}{{/each}}")).toThrow("Expected {{/if}}");
+    expect(() => compileTemplate("{{x | nope}}")).toThrow('Unknown template filter "nope"');
+  });
+});
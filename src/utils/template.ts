@@ -0,0 +1,202 @@
+/**
+ * A small Handlebars-style template engine for note rendering:
+ * `{{path | filter}}`, `{{#if x}}…{{else}}…{{/if}}`, `{{#unless x}}…{{/unless}}`
+ * and `{{#each list}}…{{/each}}` with `this`, `@index`, `@first` and `@last`.
+ * Block tags alone on a line take the whole line with them.
+ */
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; filters: string[] }
+  | { type: "if" | "unless"; path: string; body: Node[]; otherwise: Node[] }
+  | { type: "each"; path: string; body: Node[]; otherwise: Node[] };
+
+type Scope = { data: unknown; locals: Record<string, unknown>; parent?: Scope };
+
+export type TemplateFilter = (value: unknown) => unknown;
+
+export const formatMinutesSeconds = (value: unknown) => {
+  const seconds = Number(value) || 0;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${String(secs).padStart(2, "0")}`;
+};
+
+const FILTERS: Record<string, TemplateFilter> = {
+  quote: (value) => `> ${toText(value).split("\n").join("\n> ")}`,
+  tag: (value) => `#${toText(value).replace(/\s+/g, "_")}`,
+  clock: formatMinutesSeconds,
+  join: (value) => (Array.isArray(value) ? value.map(toText).join(", ") : value),
+  trim: (value) => toText(value).trim(),
+  lower: (value) => toText(value).toLowerCase(),
+  upper: (value) => toText(value).toUpperCase(),
+};
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const isTruthy = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const isBlockTag = (tag: string) => /^[#/]|^else$/.test(tag);
+
+interface Token {
+  tag?: string;
+  text?: string;
+}
+
+// Splits the source into text and tags, dropping the line around standalone block tags.
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    let start = match.index;
+    let end = start + match[0].length;
+
+    if (isBlockTag(tag)) {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      const newline = source.indexOf("\n", end);
+      const lineEnd = newline === -1 ? source.length : newline + 1;
+      const before = source.slice(Math.max(lineStart, cursor), start);
+      const after = source.slice(end, lineEnd);
+      if (lineStart >= cursor && /^[ \t]*$/.test(before) && /^[ \t]*\r?\n?$/.test(after)) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    if (start > cursor) tokens.push({ text: source.slice(cursor, start) });
+    tokens.push({ tag });
+    cursor = end;
+  }
+
+  if (cursor < source.length) tokens.push({ text: source.slice(cursor) });
+  return tokens;
+};
+
+const parse = (tokens: Token[]): Node[] => {
+  let index = 0;
+
+  const parseUntil = (closer?: string): { nodes: Node[]; end: string | null } => {
+    const nodes: Node[] = [];
+    while (index < tokens.length) {
+      const token = tokens[index++];
+      if (token.text !== undefined) {
+        nodes.push({ type: "text", value: token.text });
+        continue;
+      }
+
+      const tag = token.tag!;
+      if (tag === "else" || tag.startsWith("/")) {
+        if (!closer) throw new Error(`Unexpected {{${tag}}} in template`);
+        if (tag !== "else" && tag !== `/${closer}`) {
+          throw new Error(`Expected {{/${closer}}} but found {{${tag}}} in template`);
+        }
+        return { nodes, end: tag };
+      }
+
+      const block = /^#(if|unless|each)\s+(\S+)$/.exec(tag);
+      if (block) {
+        const [, kind, path] = block;
+        const body = parseUntil(kind);
+        let otherwise: Node[] = [];
+        if (body.end === "else") otherwise = parseUntil(kind).nodes;
+        else if (body.end === null) throw new Error(`Unclosed {{#${kind}}} in template`);
+        nodes.push({ type: kind as "if" | "unless" | "each", path, body: body.nodes, otherwise });
+        continue;
+      }
+      if (tag.startsWith("#")) throw new Error(`Unknown block {{${tag}}} in template`);
+
+      const [path, ...filters] = tag.split("|").map((part) => part.trim());
+      for (const filter of filters) {
+        if (!FILTERS[filter]) throw new Error(`Unknown template filter "${filter}"`);
+      }
+      nodes.push({ type: "var", path, filters });
+    }
+
+    if (closer) throw new Error(`Unclosed {{#${closer}}} in template`);
+    return { nodes, end: null };
+  };
+
+  return parseUntil().nodes;
+};
+
+const lookup = (scope: Scope, path: string): unknown => {
+  if (path === "this" || path === ".") return scope.data;
+  if (path.startsWith("@")) return scope.locals[path];
+
+  const [head, ...rest] = path.replace(/^this\./, "").split(".");
+  let current: Scope | undefined = scope;
+  let value: unknown;
+  while (current) {
+    if (current.data && typeof current.data === "object" && head in current.data) {
+      value = (current.data as Record<string, unknown>)[head];
+      break;
+    }
+    current = current.parent;
+  }
+
+  for (const key of rest) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+const renderNodes = (nodes: Node[], scope: Scope): string => {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "var":
+        out += toText(
+          node.filters.reduce((value, name) => FILTERS[name](value), lookup(scope, node.path))
+        );
+        break;
+      case "if":
+      case "unless": {
+        const truthy = isTruthy(lookup(scope, node.path));
+        const pick = truthy === (node.type === "if") ? node.body : node.otherwise;
+        out += renderNodes(pick, scope);
+        break;
+      }
+      case "each": {
+        const list = lookup(scope, node.path);
+        if (!Array.isArray(list) || list.length === 0) {
+          out += renderNodes(node.otherwise, scope);
+          break;
+        }
+        list.forEach((item, i) => {
+          out += renderNodes(node.body, {
+            data: item,
+            locals: { "@index": i, "@first": i === 0, "@last": i === list.length - 1 },
+            parent: scope,
+          });
+        });
+        break;
+      }
+    }
+  }
+  return out;
+};
+
+export type CompiledTemplate = (data: object) => string;
+
+/** Parses once so syntax errors surface before any note is written. */
+export const compileTemplate = (source: string): CompiledTemplate => {
+  const nodes = parse(tokenize(source));
+  return (data) => renderNodes(nodes, { data, locals: {} });
+};
+
+export const renderTemplate = (source: string, data: object): string =>
+  compileTemplate(source)(data);
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectTimeUnit,
+  getTranscriptText,
+  listSentences,
+  parseTranscript,
+  readScriptParagraphs,
+  splitTokensIntoSentences,
+} from "./transcript.js";
+
+const token = (text: string, startTime: number, endTime: number) => ({
+  text,
+  startTime,
+  endTime,
+});
+
+const karaoke = (text: string, s: number, e: number) => ({ type: "karaoke", text, s, e });
+
+const editorState = (...paragraphs: unknown[]) => ({
+  editorState: { root: { children: paragraphs } },
+});
+
+describe("splitTokensIntoSentences", () => {
+  it("ends sentences at Latin and CJK punctuation", () => {
+    const sentences = splitTokensIntoSentences([
+      token("좋아요。", 0, 1),
+      token(" Really", 1, 1.5),
+      token("?", 1.5, 1.6),
+      token(" tail", 2, 3),
+    ]);
+    expect(sentences.map(({ text, startTime, endTime }) => [text, startTime, endTime])).toEqual([
+      ["좋아요。", 0, 1],
+      ["Really?", 1, 1.6],
+      ["tail", 2, 3],
+    ]);
+  });
+});
+
+describe("detectTimeUnit", () => {
+  it("recognizes millisecond timings from word lengths", () => {
+    expect(detectTimeUnit([token("a", 0, 0.3), token("b", 0.3, 0.7)])).toBe("seconds");
+    expect(detectTimeUnit([token("a", 0, 300), token("b", 300, 700)])).toBe("milliseconds");
+    expect(detectTimeUnit([])).toBe("seconds");
+  });
+});
+
+describe("readScriptParagraphs", () => {
+  it("keeps the editor's paragraphs apart and finds nested tokens", () => {
+    const content = JSON.stringify(
+      editorState(
+        { speaker: "Kim", children: [{ children: [karaoke("a", 0, 1)] }, karaoke(" b", 1, 2)] },
+        { children: [] },
+        { speaker: 2, children: [karaoke("c", 3, 4)] }
+      )
+    );
+    expect(readScriptParagraphs(JSON.stringify({ text: content }))).toEqual([
+      { speaker: "Kim", tokens: [token("a", 0, 1), token(" b", 1, 2)] },
+      { speaker: "2", tokens: [token("c", 3, 4)] },
+    ]);
+  });
+
+  it("returns nothing for unparseable content", () => {
+    expect(readScriptParagraphs("not json")).toEqual([]);
+  });
+});
+
+describe("parseTranscript", () => {
+  it("joins script pages into one transcript in seconds", () => {
+    const transcript = parseTranscript(
+      editorState({ children: [karaoke("안녕하세요.", 1000, 1800), karaoke(" 네", 2000, 2300)] }),
+      JSON.stringify(editorState({ children: [karaoke("Next one!", 61000, 61400)] }))
+    );
+
+    expect(transcript.timeUnit).toBe("milliseconds");
+    expect(
+      transcript.paragraphs.map(({ text, startTime, endTime }) => [text, startTime, endTime])
+    ).toEqual([
+      ["안녕하세요. 네", 1, 2.3],
+      ["Next one!", 61, 61.4],
+    ]);
+    expect(listSentences(transcript).map((sentence) => sentence.text)).toEqual([
+      "안녕하세요.",
+      "네",
+      "Next one!",
+    ]);
+    expect(getTranscriptText(transcript)).toBe("안녕하세요. 네Next one!");
+  });
+
+  it("does not carry a sentence across paragraphs", () => {
+    const transcript = parseTranscript(
+      editorState(
+        { children: [karaoke("no stop", 0, 1)] },
+        { children: [karaoke(" here.", 1, 2)] }
+      )
+    );
+    expect(listSentences(transcript).map((sentence) => sentence.text)).toEqual([
+      "no stop",
+      "here.",
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+// The one model of a Daglo script that every exporter, subtitle writer and
+// note reads from. Scripts are Lexical editor states whose top-level nodes
+// are paragraphs and whose `karaoke` leaves are timed words.
+
+export type TimeUnit = "seconds" | "milliseconds";
+
+export interface TranscriptToken {
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface TranscriptSentence {
+  text: string;
+  startTime: number;
+  endTime: number;
+  tokens: TranscriptToken[];
+}
+
+export interface TranscriptParagraph {
+  speaker?: string;
+  text: string;
+  startTime: number;
+  endTime: number;
+  sentences: TranscriptSentence[];
+}
+
+/** All times are in seconds, whatever unit the script was written in. */
+export interface Transcript {
+  /** The unit of the script's own timings. */
+  timeUnit: TimeUnit;
+  paragraphs: TranscriptParagraph[];
+}
+
+export interface ParagraphTokens {
+  speaker?: string;
+  tokens: TranscriptToken[];
+}
+
+const collectTokens = (node: unknown, tokens: TranscriptToken[]) => {
+  if (!node) return;
+
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectTokens(child, tokens));
+    return;
+  }
+
+  if (typeof node !== "object") return;
+
+  const typedNode = node as Record<string, unknown>;
+  if (
+    typedNode.type === "karaoke" &&
+    typeof typedNode.text === "string" &&
+    typeof typedNode.s === "number" &&
+    typeof typedNode.e === "number"
+  ) {
+    tokens.push({
+      text: typedNode.text,
+      startTime: typedNode.s,
+      endTime: typedNode.e,
+    });
+  }
+
+  if (typedNode.children) {
+    collectTokens(typedNode.children, tokens);
+  }
+};
+
+// Scripts arrive as a Lexical editor state, sometimes serialized and wrapped in
+// a JSON string under `text`, `item` or `content`; returns the node that holds
+// the paragraphs.
+const findScriptRoot = (script: unknown): unknown => {
+  if (typeof script === "string") {
+    if (!script) return undefined;
+    try {
+      return findScriptRoot(JSON.parse(script));
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!script || typeof script !== "object" || Array.isArray(script)) return script;
+
+  const wrapper = script as Record<string, unknown>;
+  if (wrapper.editorState) {
+    const editorState = wrapper.editorState as Record<string, unknown>;
+    return editorState?.root ?? editorState;
+  }
+  for (const key of ["text", "item", "content"]) {
+    if (typeof wrapper[key] === "string" && wrapper[key]) return findScriptRoot(wrapper[key]);
+  }
+  return wrapper;
+};
+
+const readSpeaker = (node: unknown): string | undefined => {
+  const speaker = (node as { speaker?: unknown } | undefined)?.speaker;
+  if (typeof speaker === "number") return String(speaker);
+  return typeof speaker === "string" && speaker.trim() ? speaker.trim() : undefined;
+};
+
+/** The script's top-level paragraphs with their tokens; empty paragraphs are skipped. */
+export const readScriptParagraphs = (script: unknown): ParagraphTokens[] => {
+  const root = findScriptRoot(script);
+  const children = (root as { children?: unknown } | undefined)?.children;
+  const nodes = Array.isArray(children) ? children : [root];
+
+  return nodes.flatMap((node) => {
+    const tokens: TranscriptToken[] = [];
+    collectTokens(node, tokens);
+    return tokens.length ? [{ speaker: readSpeaker(node), tokens }] : [];
+  });
+};
+
+// Scripts time tokens in seconds or milliseconds; no spoken word lasts 20 seconds.
+export const detectTimeUnit = (tokens: TranscriptToken[]): TimeUnit => {
+  const durations = tokens
+    .map((token) => token.endTime - token.startTime)
+    .filter((duration) => duration > 0)
+    .sort((a, b) => a - b);
+  if (durations.length === 0) return "seconds";
+  return durations[Math.floor(durations.length / 2)] > 20 ? "milliseconds" : "seconds";
+};
+
+const joinTokens = (tokens: TranscriptToken[]) =>
+  tokens
+    .map((token) => token.text)
+    .join("")
+    .trim();
+
+const SENTENCE_END = /[?.!。！？]/;
+
+/** Groups tokens into sentences at Latin and CJK sentence-ending punctuation. */
+export const splitTokensIntoSentences = (tokens: TranscriptToken[]): TranscriptSentence[] => {
+  const sentences: TranscriptSentence[] = [];
+  let current: TranscriptToken[] = [];
+
+  const flush = () => {
+    const text = joinTokens(current);
+    if (text) {
+      sentences.push({
+        text,
+        startTime: current[0].startTime,
+        endTime: current[current.length - 1].endTime,
+        tokens: current,
+      });
+    }
+    current = [];
+  };
+
+  for (const token of tokens) {
+    current.push(token);
+    if (SENTENCE_END.test(token.text)) flush();
+  }
+  flush();
+
+  return sentences;
+};
+
+/**
+ * Builds the model from paragraphs of raw tokens, converting their times to
+ * seconds. The unit is detected from the tokens unless given.
+ */
+export const buildTranscript = (
+  paragraphs: ParagraphTokens[],
+  timeUnit = detectTimeUnit(paragraphs.flatMap((paragraph) => paragraph.tokens))
+): Transcript => {
+  const toSeconds = (time: number) => (timeUnit === "milliseconds" ? time / 1000 : time);
+
+  return {
+    timeUnit,
+    paragraphs: paragraphs.flatMap(({ speaker, tokens }) => {
+      const scaled = tokens.map((token) => ({
+        ...token,
+        startTime: toSeconds(token.startTime),
+        endTime: toSeconds(token.endTime),
+      }));
+      const sentences = splitTokensIntoSentences(scaled);
+      if (sentences.length === 0) return [];
+      return [
+        {
+          ...(speaker ? { speaker } : {}),
+          text: joinTokens(scaled),
+          startTime: sentences[0].startTime,
+          endTime: sentences[sentences.length - 1].endTime,
+          sentences,
+        },
+      ];
+    }),
+  };
+};
+
+/**
+ * Parses one or more scripts (pages of the same recording) into a transcript.
+ * Each may be a serialized or already parsed editor state.
+ */
+export const parseTranscript = (...scripts: unknown[]): Transcript =>
+  buildTranscript(scripts.flatMap(readScriptParagraphs));
+
+export const listSentences = (transcript: Transcript): TranscriptSentence[] =>
+  transcript.paragraphs.flatMap((paragraph) => paragraph.sentences);
+
+export const listTokens = (transcript: Transcript): TranscriptToken[] =>
+  listSentences(transcript).flatMap((sentence) => sentence.tokens);
+
+/** The spoken text as the script has it, without timing. */
+export const getTranscriptText = (transcript: Transcript): string =>
+  joinTokens(listTokens(transcript));
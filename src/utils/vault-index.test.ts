@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendDailyNoteLinks,
+  buildMocNotes,
+  IndexedNote,
+  mergeIndexedNotes,
+  readIndexedNote,
+} from "./vault-index.js";
+
+const note = (overrides: Partial<IndexedNote>): IndexedNote => ({
+  boardId: "b1",
+  title: "Standup",
+  date: "2024-05-01",
+  keywords: [],
+  link: "summary/2024-05-01 Standup",
+  ...overrides,
+});
+
+describe("appendDailyNoteLinks", () => {
+  it("creates the heading in a new or existing daily note", () => {
+    expect(appendDailyNoteLinks("", "Daglo", [note({})])).toBe(
+      "## Daglo\n\n- [[summary/2024-05-01 Standup|Standup]]\n"
+    );
+    expect(appendDailyNoteLinks("# May 1\n\nWent well.\n", "Meetings", [note({})])).toBe(
+      "# May 1\n\nWent well.\n\n## Meetings\n\n- [[summary/2024-05-01 Standup|Standup]]\n"
+    );
+  });
+
+  it("adds missing links at the end of the existing section", () => {
+    const existing = [
+      "## Daglo",
+      "",
+      "- [[summary/2024-05-01 Standup|Standup]]",
+      "",
+      "## Journal",
+      "Notes",
+      "",
+    ].join("\n");
+    const updated = appendDailyNoteLinks(existing, "Daglo", [
+      note({}),
+      note({ boardId: "b2", title: "Retro", link: "summary/2024-05-01 Retro" }),
+    ]);
+
+    expect(updated).toBe(
+      [
+        "## Daglo",
+        "",
+        "- [[summary/2024-05-01 Standup|Standup]]",
+        "- [[summary/2024-05-01 Retro|Retro]]",
+        "",
+        "## Journal",
+        "Notes",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("leaves the note untouched when every board is already linked", () => {
+    const existing = "Moved it: [[summary/2024-05-01 Standup]]\n";
+    expect(appendDailyNoteLinks(existing, "Daglo", [note({})])).toBe(existing);
+  });
+});
+
+describe("buildMocNotes", () => {
+  it("indexes boards per folder and per keyword", () => {
+    const mocs = buildMocNotes([
+      note({ folder: "Work/Calls", keywords: ["AI", "roadmap"] }),
+      note({
+        boardId: "b2",
+        title: "Kickoff",
+        date: "2024-04-01",
+        folder: "Work/Calls",
+        keywords: ["ai"],
+        link: "Calls/summary/2024-04-01 Kickoff",
+      }),
+      note({ boardId: "b3", title: "Loose", link: "summary/Loose" }),
+    ]);
+
+    expect(mocs.map((moc) => moc.path)).toEqual([
+      "MOC/Folders/Work - Calls.md",
+      "MOC/Folders/Unfiled.md",
+      "MOC/Keywords/AI.md",
+      "MOC/Keywords/roadmap.md",
+    ]);
+    expect(mocs[0].body).toBe(
+      [
+        "# Work/Calls",
+        "",
+        "- [[Calls/summary/2024-04-01 Kickoff|Kickoff]] (2024-04-01)",
+        "- [[summary/2024-05-01 Standup|Standup]] (2024-05-01)",
+      ].join("\n")
+    );
+    expect(mocs[2].frontmatter).toContain("moc: keyword");
+    expect(mocs[2].body.split("\n").filter((line) => line.startsWith("- "))).toHaveLength(2);
+  });
+});
+
+describe("readIndexedNote", () => {
+  it("reads the index entry from a Daglo note's frontmatter", () => {
+    const frontmatter = [
+      'title: "Standup: May"',
+      "date: 2024-05-01",
+      "keywords:",
+      "  - Roadmap",
+      "source: daglo",
+      "board_id: b1",
+      "folder: Calls",
+    ].join("\n");
+
+    expect(readIndexedNote("summary/2024-05-01 Standup", frontmatter)).toEqual({
+      boardId: "b1",
+      title: "Standup: May",
+      date: "2024-05-01",
+      keywords: ["Roadmap"],
+      folder: "Calls",
+      link: "summary/2024-05-01 Standup",
+    });
+  });
+
+  it("skips notes Daglo did not write", () => {
+    expect(readIndexedNote("Notes", "title: Mine\nboard_id: b1")).toBeUndefined();
+    expect(readIndexedNote("Notes", "source: daglo")).toBeUndefined();
+    expect(readIndexedNote("Notes", "title: [unclosed")).toBeUndefined();
+  });
+});
+
+describe("mergeIndexedNotes", () => {
+  it("keeps earlier boards and lets this run's notes win", () => {
+    const merged = mergeIndexedNotes(
+      [note({}), note({ boardId: "b2", title: "Retro" })],
+      [note({ boardId: "b2", title: "Retro v2" })]
+    );
+    expect(merged.map((entry) => entry.title)).toEqual(["Standup", "Retro v2"]);
+  });
+});
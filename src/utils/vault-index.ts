@@ -0,0 +1,174 @@
+import { parse, stringify } from "yaml";
+import { sanitizeFilename } from "./file.js";
+
+export const DEFAULT_DAILY_NOTES_HEADING = "Daglo";
+export const MOC_DIR = "MOC";
+const UNFILED_FOLDER = "Unfiled";
+
+export interface IndexedNote {
+  boardId: string;
+  title: string;
+  /** Creation date as YYYY-MM-DD, or undefined when Daglo did not report one. */
+  date?: string;
+  keywords: string[];
+  /** Daglo folder path, e.g. `Work/Calls`. */
+  folder?: string;
+  /** Vault-relative note path without the `.md` extension. */
+  link: string;
+}
+
+/**
+ * The index entry of a note from an earlier export, read from its
+ * frontmatter; undefined for notes Daglo did not write.
+ */
+export const readIndexedNote = (link: string, frontmatter: string): IndexedNote | undefined => {
+  let properties: Record<string, unknown>;
+  try {
+    properties = (parse(frontmatter) ?? {}) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  const boardId = properties.board_id;
+  if (properties.source !== "daglo" || (typeof boardId !== "string" && typeof boardId !== "number")) {
+    return undefined;
+  }
+  const text = (value: unknown) =>
+    typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+  return {
+    boardId: String(boardId),
+    title: text(properties.title) ?? String(boardId),
+    date: text(properties.date),
+    keywords: Array.isArray(properties.keywords)
+      ? properties.keywords.map(text).filter((keyword): keyword is string => !!keyword)
+      : [],
+    folder: text(properties.folder),
+    link,
+  };
+};
+
+/** One entry per board; `current` (this run's notes) wins over what the vault already had. */
+export const mergeIndexedNotes = (
+  existing: IndexedNote[],
+  current: IndexedNote[]
+): IndexedNote[] => {
+  const byBoard = new Map(existing.map((note) => [note.boardId, note]));
+  for (const note of current) byBoard.set(note.boardId, note);
+  return [...byBoard.values()];
+};
+
+export const formatNoteLink = (note: IndexedNote) =>
+  `[[${note.link}|${note.title.replace(/[|[\]]/g, " ").trim() || note.boardId}]]`;
+
+const isLinked = (text: string, note: IndexedNote) =>
+  text.includes(`[[${note.link}|`) || text.includes(`[[${note.link}]]`);
+
+const toHeadingLine = (heading: string) =>
+  heading.startsWith("#") ? heading.trim() : `## ${heading.trim()}`;
+
+/**
+ * Adds a link for each note not yet linked under `heading`, creating the
+ * heading at the end of the daily note when it is missing. Existing text,
+ * including links the user moved elsewhere, is left as it is.
+ */
+export const appendDailyNoteLinks = (
+  existing: string,
+  heading: string,
+  notes: IndexedNote[]
+): string => {
+  const missing = notes.filter((note) => !isLinked(existing, note));
+  if (missing.length === 0) return existing;
+
+  const items = missing.map((note) => `- ${formatNoteLink(note)}`);
+  const headingLine = toHeadingLine(heading);
+  const lines = existing ? existing.replace(/\s+$/, "").split(/\r?\n/) : [];
+  const headingIndex = lines.findIndex((line) => line.trim() === headingLine);
+
+  if (headingIndex === -1) {
+    const gap = lines.length ? [""] : [];
+    return [...lines, ...gap, headingLine, "", ...items, ""].join("\n");
+  }
+
+  // The section ends at the next heading of the same or a higher level.
+  const level = /^#+/.exec(headingLine)![0].length;
+  const nextHeading = new RegExp(`^#{1,${level}}\\s`);
+  let end = lines.findIndex((line, i) => i > headingIndex && nextHeading.test(line));
+  if (end === -1) end = lines.length;
+  let insertAt = end;
+  while (insertAt > headingIndex + 1 && !lines[insertAt - 1].trim()) insertAt -= 1;
+
+  const block = insertAt === headingIndex + 1 ? ["", ...items] : items;
+  const trailing = end < lines.length && insertAt === end ? [""] : [];
+  lines.splice(insertAt, 0, ...block, ...trailing);
+  return `${lines.join("\n")}\n`;
+};
+
+export interface MocNote {
+  /** Vault-relative path of the index note. */
+  path: string;
+  frontmatter: string;
+  body: string;
+}
+
+const byDateThenTitle = (a: IndexedNote, b: IndexedNote) =>
+  (a.date ?? "").localeCompare(b.date ?? "") || a.title.localeCompare(b.title);
+
+const buildMoc = (
+  kind: "folder" | "keyword",
+  title: string,
+  path: string,
+  notes: IndexedNote[]
+): MocNote => {
+  const frontmatter = stringify(
+    { title, tags: ["moc"], moc: kind, source: "daglo" },
+    { lineWidth: 0 }
+  ).trimEnd();
+  const items = [...notes]
+    .sort(byDateThenTitle)
+    .map((note) => `- ${formatNoteLink(note)}${note.date ? ` (${note.date})` : ""}`);
+  return {
+    path,
+    frontmatter: `---\n${frontmatter}\n---`,
+    body: `# ${title}\n\n${items.join("\n")}`,
+  };
+};
+
+const groupBy = (notes: IndexedNote[], keysOf: (note: IndexedNote) => string[]) => {
+  const groups = new Map<string, IndexedNote[]>();
+  for (const note of notes) {
+    for (const key of new Set(keysOf(note))) {
+      groups.set(key, [...(groups.get(key) ?? []), note]);
+    }
+  }
+  return groups;
+};
+
+/** One index note per Daglo folder and per keyword, under `MOC/Folders` and `MOC/Keywords`. */
+export const buildMocNotes = (notes: IndexedNote[]): MocNote[] => {
+  const mocs: MocNote[] = [];
+
+  for (const [folder, members] of groupBy(notes, (note) => [note.folder || UNFILED_FOLDER])) {
+    const name = sanitizeFilename(folder.split("/").join(" - "));
+    mocs.push(buildMoc("folder", folder, `${MOC_DIR}/Folders/${name}.md`, members));
+  }
+
+  // Keywords differing only in case share a note, titled by the first spelling seen.
+  const spellings = new Map<string, string>();
+  const keywordGroups = groupBy(notes, (note) =>
+    note.keywords
+      .map((keyword) => keyword.trim())
+      .filter(Boolean)
+      .map((keyword) => {
+        const key = keyword.toLowerCase();
+        if (!spellings.has(key)) spellings.set(key, keyword);
+        return key;
+      })
+  );
+  for (const [key, members] of keywordGroups) {
+    const keyword = spellings.get(key)!;
+    const name = sanitizeFilename(keyword);
+    if (!name) continue;
+    mocs.push(buildMoc("keyword", keyword, `${MOC_DIR}/Keywords/${name}.md`, members));
+  }
+
+  return mocs;
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { buildTranscript } from "./transcript.js";
+import { buildWordTimingDocument } from "./word-timing.js";
+
+describe("buildWordTimingDocument", () => {
+  it("nests words in sentences in paragraphs, in seconds", () => {
+    const document = buildWordTimingDocument(
+      buildTranscript([
+        {
+          speaker: "Kim",
+          tokens: [
+            { text: "좋아요.", startTime: 0, endTime: 700 },
+            { text: " ", startTime: 700, endTime: 700 },
+            { text: " 네", startTime: 1200, endTime: 1333.3 },
+          ],
+        },
+      ])
+    );
+    expect(document).toEqual({
+      version: 1,
+      timeUnit: "seconds",
+      paragraphs: [
+        {
+          speaker: "Kim",
+          text: "좋아요.  네",
+          startTime: 0,
+          endTime: 1.333,
+          sentences: [
+            {
+              text: "좋아요.",
+              startTime: 0,
+              endTime: 0.7,
+              words: [{ text: "좋아요.", startTime: 0, endTime: 0.7 }],
+            },
+            {
+              text: "네",
+              startTime: 0.7,
+              endTime: 1.333,
+              words: [{ text: "네", startTime: 1.2, endTime: 1.333 }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
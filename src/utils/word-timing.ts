@@ -0,0 +1,43 @@
+import { Transcript } from "./transcript.js";
+
+/** Bumped whenever a field is renamed or removed; new fields may appear without a bump. */
+export const WORD_TIMING_VERSION = 1;
+
+type Timed = { text: string; startTime: number; endTime: number };
+
+export type WordTiming = Timed;
+
+export type SentenceTiming = Timed & { words: WordTiming[] };
+
+export type ParagraphTiming = Timed & { speaker?: string; sentences: SentenceTiming[] };
+
+export interface WordTimingDocument {
+  version: typeof WORD_TIMING_VERSION;
+  /** All times are in seconds, rounded to milliseconds. */
+  timeUnit: "seconds";
+  paragraphs: ParagraphTiming[];
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const toTiming = ({ text, startTime, endTime }: Timed): Timed => ({
+  text,
+  startTime: round(startTime),
+  endTime: round(endTime),
+});
+
+/** The transcript's paragraph → sentence → word hierarchy with the time of each level. */
+export const buildWordTimingDocument = (transcript: Transcript): WordTimingDocument => ({
+  version: WORD_TIMING_VERSION,
+  timeUnit: "seconds",
+  paragraphs: transcript.paragraphs.map((paragraph) => ({
+    ...(paragraph.speaker ? { speaker: paragraph.speaker } : {}),
+    ...toTiming(paragraph),
+    sentences: paragraph.sentences.map((sentence) => ({
+      ...toTiming(sentence),
+      words: sentence.tokens
+        .filter((token) => token.text.trim())
+        .map((token) => toTiming({ ...token, text: token.text.trim() })),
+    })),
+  })),
+});